@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  fetchInteractionDetails,
+  toConsentDetails,
+} from "@/lib/oidc/interaction";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getProviderByProxyPath } from "@/lib/oidc/providers";
+
+// Lives under the proxied <proxyPath>/interaction/:uid path on purpose: the
+// provider scopes its interaction cookies to that path, so the browser only
+// sends them to requests below it. Serves single-segment proxy paths.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ proxy: string; uid: string }> }
+) {
+  const { proxy, uid } = await params;
+
+  let provider;
+  try {
+    provider = getProviderByProxyPath(`/${proxy}`);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "not_found",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const interaction = await fetchInteractionDetails(
+      provider,
+      uid,
+      request.headers.get("cookie") ?? ""
+    );
+
+    return NextResponse.json(toConsentDetails(interaction));
+  } catch (error) {
+    console.error("Interaction details error:", error);
+    // Pass the provider's error through, e.g. for expired interactions
+    return NextResponse.json(
+      {
+        error: error instanceof OAuthError ? error.error : "interaction_failed",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: error instanceof OAuthError ? error.status : 502 }
+    );
+  }
+}
@@ -1,27 +1,62 @@
 import NextAuth, { NextAuthOptions } from "next-auth";
 import type { OAuthConfig } from "next-auth/providers/oauth";
+import { cookies } from "next/headers";
+import {
+  AUTHORIZATION_BROWSER_COOKIE,
+  redeemAuthorizationTransaction,
+} from "@/lib/bff/authorization-transactions";
+import {
+  exchangeCode,
+  fetchUserInfo,
+  getServerDpopKey,
+} from "@/lib/bff/client";
+import { isDpopTokenType } from "@/lib/oidc/dpop";
+import { verifyIdToken } from "@/lib/oidc/id-token";
+import { decodeJwt } from "@/lib/oidc/jwt";
+import { isLoggedOut, SESSION_MAX_AGE_S } from "@/lib/oidc/session-index";
+import {
+  getAccessTokenExpiry,
+  getResourceToken,
+  refreshAccessToken,
+  shouldRefresh,
+} from "@/lib/nextauth/refresh";
+import {
+  getNextAuthRedirectUri,
+  getProvider,
+  listProviders,
+  ProviderConfig,
+} from "@/lib/oidc/providers";
 
-// Helper to get env var or default
-const VLIFE_ISSUER = process.env.VLIFE_ISSUER;
+// cnf.jkt of a JWT access token: the thumbprint of the key it is bound to
+function boundKeyThumbprint(accessToken: string | undefined) {
+  try {
+    const cnf = decodeJwt(accessToken ?? "").payload.cnf as
+      { jkt?: unknown } | undefined;
+    return typeof cnf?.jkt === "string" ? cnf.jkt : undefined;
+  } catch {
+    return undefined;
+  }
+}
 
-// Define VLife provider configuration
-const VLifeProvider: OAuthConfig<any> = {
-  id: "vlife",
-  name: "VLife",
+// Build a VLife NextAuth provider from a provider registry entry
+const VLifeProvider = (config: ProviderConfig): OAuthConfig<any> => ({
+  id: config.id,
+  name: config.name,
   type: "oauth",
-  wellKnown: `${VLIFE_ISSUER}/.well-known/openid-configuration`,
-  clientId: process.env.VLIFE_CLIENT_ID!,
-  clientSecret: process.env.VLIFE_CLIENT_SECRET!,
+  wellKnown: `${config.issuer}/.well-known/openid-configuration`,
+  clientId: config.clientId,
+  clientSecret: config.clientSecret,
 
   authorization: {
     params: {
-      scope: "openid profile email offline_access",
+      scope: config.scopes.join(" "),
+      ...resourceParam(config),
     },
   },
 
-  // Force client_secret_post to match the backend configuration
+  // Must match the auth method registered for the client at the provider
   client: {
-    token_endpoint_auth_method: "client_secret_post",
+    token_endpoint_auth_method: config.tokenEndpointAuthMethod,
   },
 
   // Enable PKCE and state validation
@@ -39,67 +74,155 @@ const VLifeProvider: OAuthConfig<any> = {
   },
 
   // Token endpoint configuration for internal calls if needed defaults
-};
+  ...(usesAppTokenRequests(config) ? appTokenRequests(config) : {}),
 
-// Token refresh function
-async function refreshAccessToken(token: any) {
-  try {
-    const url = `${VLIFE_ISSUER}/token`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: token.refreshToken,
-        client_id: process.env.VLIFE_CLIENT_ID!,
-        client_secret: process.env.VLIFE_CLIENT_SECRET!,
-      }),
-    });
+  // Pushed Authorization Requests (RFC 9126) / signed request objects
+  // (RFC 9101)
+  ...(config.usePar || config.useJar ? appAuthorization(config) : {}),
+});
 
-    const refreshedTokens = await response.json();
+// Resource indicators (RFC 8707) for the APIs the grant should cover;
+// openid-client repeats the parameter for each one
+function resourceParam(config: ProviderConfig) {
+  return config.resources.length > 0 ? { resource: config.resources } : {};
+}
 
-    if (!response.ok) {
-      throw refreshedTokens;
-    }
+// openid-client would need the client's private keys as JWKs for
+// private_key_jwt, can't send DPoP proofs, and needs the token endpoint from
+// discovery. Those providers use lib/bff/client instead, with the same client
+// authentication and DPoP key as the BFF.
+function usesAppTokenRequests(config: ProviderConfig) {
+  return (
+    config.usePar ||
+    config.useJar ||
+    config.useDpop ||
+    config.tokenEndpointAuthMethod === "client_secret_jwt" ||
+    config.tokenEndpointAuthMethod === "private_key_jwt"
+  );
+}
 
-    return {
-      ...token,
-      accessToken: refreshedTokens.access_token,
-      accessTokenExpires: Date.now() + refreshedTokens.expires_in * 1000,
-      refreshToken: refreshedTokens.refresh_token ?? token.refreshToken, // Fallback to old refresh token
-    };
-  } catch (error) {
-    console.error("Error refreshing access token:", error);
+function appTokenRequests(
+  config: ProviderConfig
+): Partial<OAuthConfig<Record<string, unknown>>> {
+  return {
+    // openid-client no longer authenticates the client itself
+    client: { token_endpoint_auth_method: "none" },
+    token: {
+      async request({ params, checks, provider }) {
+        let codeVerifier = checks.code_verifier;
+        let nonce;
+        if (config.usePar || config.useJar) {
+          // /api/par and /api/jar generated state, nonce and PKCE and bound
+          // them to this browser
+          const transaction = redeemAuthorizationTransaction(
+            params.state,
+            (await cookies()).get(AUTHORIZATION_BROWSER_COOKIE)?.value
+          );
+          if (!transaction || transaction.providerId !== config.id) {
+            throw new Error(
+              "No pending authorization request for this state in this browser"
+            );
+          }
+          codeVerifier = transaction.codeVerifier;
+          nonce = transaction.nonce;
+        } else if (!params.state || params.state !== checks.state) {
+          // openid-client compares state only when it makes the request itself
+          throw new Error("State mismatch in the authorization response");
+        }
+        if (!params.code || !codeVerifier) {
+          throw new Error("Authorization code or PKCE verifier missing");
+        }
+        const tokens = await exchangeCode(
+          config,
+          params.code,
+          codeVerifier,
+          provider.callbackUrl
+        );
+        // The jwt callback verifies the ID token's signature
+        if (nonce && decodeJwt(tokens.id_token ?? "").payload.nonce !== nonce) {
+          throw new Error("ID token nonce does not match the request");
+        }
+        return { tokens: { ...tokens } };
+      },
+    },
+    userinfo: {
+      request: ({ tokens }) =>
+        fetchUserInfo(config, tokens.access_token!, tokens.token_type),
+    },
+  };
+}
 
-    return {
-      ...token,
-      error: "RefreshAccessTokenError",
-    };
-  }
+// With PAR or JAR, NextAuth sends the browser to /api/par or /api/jar instead
+// of the provider's authorization endpoint. NextAuth only takes
+// authorization.url without discovery. Those routes generate state, nonce and
+// PKCE themselves, so NextAuth doesn't.
+function appAuthorization(
+  config: ProviderConfig
+): Partial<OAuthConfig<Record<string, unknown>>> {
+  return {
+    wellKnown: undefined,
+    issuer: config.issuer,
+    checks: [],
+    authorization: {
+      url: new URL(
+        config.useJar ? "/api/jar" : "/api/par",
+        getNextAuthRedirectUri(config)
+      ).toString(),
+      params: {
+        scope: config.scopes.join(" "),
+        ...resourceParam(config),
+        provider: config.id,
+        par: String(Boolean(config.usePar)),
+        jar: String(Boolean(config.useJar)),
+      },
+    },
+  };
 }
 
+// Every registry entry with a NextAuth callback URI registered
+const providerConfigs = listProviders().filter((config) =>
+  getNextAuthRedirectUri(config)
+);
+
 // NextAuth configuration
 export const authOptions: NextAuthOptions = {
-  providers: [VLifeProvider],
+  providers: providerConfigs.map(VLifeProvider),
+
+  // Back-channel logout events are kept as long as a session can live
+  session: { strategy: "jwt", maxAge: SESSION_MAX_AGE_S },
 
   callbacks: {
     // JWT callback: runs when JWT is created or updated
-    async jwt({ token, account, profile }) {
+    async jwt({ token, account, profile, trigger, session }) {
       // Initial sign in
       if (account && profile) {
+        // Reject the sign-in unless the ID token is signed by the provider
+        // and issued to this client
+        if (!account.id_token) {
+          throw new Error("Token response did not include an ID token");
+        }
+        const config = getProvider(account.provider);
+        const claims = await verifyIdToken(account.id_token, {
+          issuer: config.issuer,
+          clientId: config.clientId,
+          accessToken: account.access_token,
+        });
+
         return {
           ...token,
           accessToken: account.access_token,
+          tokenType: account.token_type,
           refreshToken: account.refresh_token,
-          accessTokenExpires: account.expires_at
-            ? account.expires_at * 1000
-            : 0,
+          accessTokenExpires: getAccessTokenExpiry(
+            account.access_token,
+            account.expires_at
+          ),
           idToken: account.id_token,
+          provider: account.provider,
+          sid: claims.sid as string | undefined,
+          signedInAt: Date.now(),
           user: {
-            id: profile.sub,
+            id: profile.sub as string,
             email: profile.email as string,
             name: profile.name as string,
             picture: (profile as any).picture,
@@ -107,24 +230,62 @@ export const authOptions: NextAuthOptions = {
         };
       }
 
-      // Return previous token if not expired
-      // If accessTokenExpires is missing, we assume it's valid or check logic
+      // Ended by a back-channel logout from the provider. Throwing makes
+      // NextAuth clear the session cookie.
       if (
-        token.accessTokenExpires &&
-        Date.now() < (token.accessTokenExpires as number)
+        token.provider &&
+        token.user &&
+        isLoggedOut(
+          { providerId: token.provider, sub: token.user.id, sid: token.sid },
+          token.signedInAt ?? 0
+        )
       ) {
+        throw new Error("Session was ended by the provider");
+      }
+
+      // update({ resource, scope }) from the client asks for an access token
+      // for another API
+      if (trigger === "update" && typeof session?.resource === "string") {
+        return getResourceToken(
+          token,
+          session.resource,
+          typeof session.scope === "string" ? session.scope : undefined
+        );
+      }
+
+      // Refresh shortly before the access token expires
+      if (!shouldRefresh(token)) {
         return token;
       }
 
-      // Access token has expired, try to refresh it
-      return await refreshAccessToken(token);
+      return refreshAccessToken(token);
     },
 
     // Session callback: runs whenever session is checked
     async session({ session, token }) {
       session.user = token.user as any;
-      session.accessToken = token.accessToken as string;
-      session.error = token.error as string | undefined;
+      session.provider = token.provider;
+      session.tokenType = token.tokenType;
+      // DPoP-bound tokens only work with the server's key, which the browser
+      // doesn't hold; it gets the key thumbprints instead
+      if (isDpopTokenType(token.tokenType)) {
+        session.dpopJkt = boundKeyThumbprint(token.accessToken);
+        session.serverDpopJkt = (await getServerDpopKey()).jkt;
+      } else {
+        session.accessToken = token.accessToken;
+      }
+      session.resourceTokens =
+        token.resourceTokens &&
+        Object.fromEntries(
+          Object.entries(token.resourceTokens).map(([resource, entry]) => [
+            resource,
+            isDpopTokenType(entry.tokenType)
+              ? { ...entry, accessToken: undefined }
+              : entry,
+          ])
+        );
+      session.resourceTokenError = token.resourceTokenError;
+      session.error = token.error;
 
       return session;
     },
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { buildEndSessionUrl, revokeToken } from "@/lib/bff/client";
+import { UnsupportedFeatureError } from "@/lib/oidc/discovery";
+import {
+  getNextAuthPostLogoutRedirectUri,
+  getProvider,
+} from "@/lib/oidc/providers";
+import { clearSessionCookies, setLogoutState } from "@/lib/nextauth/logout";
+
+// RP-initiated logout for NextAuth sessions. Clears the NextAuth cookie and
+// sends the browser to the provider's end_session_endpoint with the ID token
+// from the jwt callback, so the provider session ends too.
+// ?revoke=true revokes the refresh token first.
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  const demoPage = new URL("/next-auth-demo", request.url);
+
+  if (!token?.provider) {
+    const response = NextResponse.redirect(demoPage);
+    clearSessionCookies(request, response);
+    return response;
+  }
+
+  const provider = getProvider(token.provider);
+
+  if (
+    token.refreshToken &&
+    request.nextUrl.searchParams.get("revoke") === "true"
+  ) {
+    try {
+      await revokeToken(provider, token.refreshToken, "refresh_token");
+    } catch (err) {
+      // Logging out still matters more than the revocation
+      console.error("Refresh token revocation failed:", err);
+    }
+  }
+
+  const state = crypto.randomUUID();
+  let response;
+  try {
+    response = NextResponse.redirect(
+      await buildEndSessionUrl(provider, {
+        idToken: token.idToken,
+        postLogoutRedirectUri: getNextAuthPostLogoutRedirectUri(provider),
+        state,
+      })
+    );
+    setLogoutState(response, state);
+  } catch (err) {
+    // The local session is still cleared when the provider cannot log out
+    if (!(err instanceof UnsupportedFeatureError)) {
+      demoPage.searchParams.set(
+        "error",
+        err instanceof Error ? err.message : "Provider logout failed"
+      );
+    }
+    response = NextResponse.redirect(demoPage);
+  }
+
+  clearSessionCookies(request, response);
+  return response;
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearLogoutState, LOGOUT_STATE_COOKIE } from "@/lib/nextauth/logout";
+
+// post_logout_redirect_uri of the NextAuth logout. Only accepts the state
+// this browser sent to the end_session_endpoint.
+export async function GET(request: NextRequest) {
+  const expectedState = request.cookies.get(LOGOUT_STATE_COOKIE)?.value;
+  const state = request.nextUrl.searchParams.get("state");
+  const demoPage = new URL("/next-auth-demo", request.url);
+
+  if (!expectedState || state !== expectedState) {
+    demoPage.searchParams.set(
+      "error",
+      "Logout response state did not match. The provider session may still be active."
+    );
+  } else {
+    demoPage.searchParams.set("logout", "success");
+  }
+
+  const response = NextResponse.redirect(demoPage);
+  clearLogoutState(response);
+  return response;
+}
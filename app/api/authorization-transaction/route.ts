@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AUTHORIZATION_BROWSER_COOKIE,
+  redeemAuthorizationTransaction,
+} from "@/lib/bff/authorization-transactions";
+
+// Hands the browser test client the state, nonce and PKCE verifier of a
+// request it started through /api/par or /api/jar, so it can validate the
+// response and exchange the code. Takes { state } from the authorization
+// response; only the browser that started the request gets an answer, once.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const transaction = redeemAuthorizationTransaction(
+    typeof body.state === "string" ? body.state : null,
+    request.cookies.get(AUTHORIZATION_BROWSER_COOKIE)?.value
+  );
+  if (!transaction) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description:
+          "No pending authorization request with this state in this browser",
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    providerId: transaction.providerId,
+    redirectUri: transaction.redirectUri,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    codeVerifier: transaction.codeVerifier,
+  });
+}
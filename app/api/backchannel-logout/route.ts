@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleLogoutToken } from "@/lib/oidc/backchannel-logout";
+
+// OpenID Connect Back-Channel Logout receiver. Register this URL as the
+// client's backchannel_logout_uri; the provider POSTs a signed logout_token.
+export async function POST(request: NextRequest) {
+  const headers = { "Cache-Control": "no-store" };
+
+  let logoutToken;
+  try {
+    logoutToken = (await request.formData()).get("logout_token");
+  } catch {
+    logoutToken = null;
+  }
+  if (typeof logoutToken !== "string" || !logoutToken) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: "Missing logout_token",
+      },
+      { status: 400, headers }
+    );
+  }
+
+  try {
+    const result = await handleLogoutToken(logoutToken);
+    console.info("Back-channel logout:", result);
+    return new NextResponse(null, { status: 200, headers });
+  } catch (err) {
+    console.error("Back-channel logout rejected:", err);
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description:
+          err instanceof Error ? err.message : "Invalid logout token",
+      },
+      { status: 400, headers }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/bff/session";
+import { handleLogoutToken } from "@/lib/oidc/backchannel-logout";
+import { base64UrlEncode } from "@/lib/oidc/jwt";
+import { BACKCHANNEL_LOGOUT_EVENT } from "@/lib/oidc/logout-token";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Development helper: signs a logout token with a throwaway ES256 key and runs
+// it through the same verification and session invalidation as
+// /api/backchannel-logout, trusting only that key. Targets the current BFF
+// session unless { providerId, sub, sid } is posted.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const session = getSession(request);
+  const providerId = body.providerId ?? session?.providerId;
+  const sub = body.sub ?? session?.claims.sub;
+  const sid = body.sid ?? session?.claims.sid;
+
+  if (!providerId || (!sub && !sid)) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description:
+          "Log in with the BFF first, or post { providerId, sub, sid }",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const provider = getProvider(providerId);
+    const { privateKey, publicKey } = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"]
+    );
+    const kid = crypto.randomUUID();
+    const jwk = await crypto.subtle.exportKey("jwk", publicKey);
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64UrlEncode(
+      JSON.stringify({ alg: "ES256", typ: "logout+jwt", kid })
+    );
+    const payload = base64UrlEncode(
+      JSON.stringify({
+        iss: provider.issuer,
+        aud: provider.clientId,
+        iat: now,
+        exp: now + 120,
+        jti: crypto.randomUUID(),
+        sub,
+        sid,
+        events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+      })
+    );
+    const signature = await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      privateKey,
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    const logoutToken = `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+
+    const result = await handleLogoutToken(logoutToken, {
+      jwks: { keys: [{ ...jwk, kid, use: "sig" }] },
+    });
+    return NextResponse.json({ logoutToken, ...result });
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: err instanceof Error ? err.message : String(err),
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "@/lib/oidc/id-token";
+import { exchangeCode, toBffTokens } from "@/lib/bff/client";
+import { getProvider } from "@/lib/oidc/providers";
+import {
+  consumeTransaction,
+  createSession,
+  TRANSACTION_COOKIE,
+} from "@/lib/bff/session";
+
+// Completes the BFF login: validates state, exchanges the code, verifies the
+// ID token and creates the server-side session. The browser is forwarded here
+// by /auth/callback.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const home = new URL("/", request.url);
+  const response = NextResponse.redirect(home);
+
+  const fail = (message: string) => {
+    home.searchParams.set("error", message);
+    const failure = NextResponse.redirect(home);
+    failure.cookies.delete(TRANSACTION_COOKIE);
+    return failure;
+  };
+
+  const transaction = consumeTransaction(request, response);
+  if (!transaction) {
+    return fail("No pending BFF login. Please start the auth flow again.");
+  }
+
+  if (searchParams.get("state") !== transaction.state) {
+    return fail("State mismatch: the callback was rejected to prevent CSRF.");
+  }
+
+  const errorParam = searchParams.get("error");
+  if (errorParam) {
+    return fail(
+      `${errorParam}: ${searchParams.get("error_description") || "Unknown error"}`
+    );
+  }
+
+  const code = searchParams.get("code");
+  if (!code) {
+    return fail("Authorization code missing");
+  }
+
+  try {
+    const provider = getProvider(transaction.providerId);
+    const tokenData = await exchangeCode(
+      provider,
+      code,
+      transaction.codeVerifier
+    );
+
+    if (!tokenData.id_token) {
+      throw new Error("Token response did not include an ID token");
+    }
+
+    const claims = await verifyIdToken(tokenData.id_token, {
+      issuer: provider.issuer,
+      clientId: provider.clientId,
+      nonce: transaction.nonce,
+      accessToken: tokenData.access_token,
+      code,
+    });
+
+    createSession(
+      { providerId: provider.id, tokens: toBffTokens(tokenData), claims },
+      response
+    );
+    return response;
+  } catch (err) {
+    console.error("BFF callback error:", err);
+    return fail(err instanceof Error ? err.message : "Token exchange failed");
+  }
+}
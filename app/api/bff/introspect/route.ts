@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TokenTypeHint } from "@/lib/bff/client";
+import { introspect } from "@/lib/bff/introspection";
+import { getSession } from "@/lib/bff/session";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Introspects the session's access token, or its refresh token with
+// { "token_type_hint": "refresh_token" }
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const tokenTypeHint: TokenTypeHint =
+    body.token_type_hint === "refresh_token" ? "refresh_token" : "access_token";
+  const token =
+    tokenTypeHint === "refresh_token"
+      ? session.tokens.refreshToken
+      : session.tokens.accessToken;
+  if (!token) {
+    return NextResponse.json(
+      { error: `No ${tokenTypeHint.replace("_", " ")} found.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(
+      await introspect(getProvider(session.providerId), token, {
+        tokenTypeHint,
+      })
+    );
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : "Token introspection failed",
+      },
+      { status: err instanceof OAuthError ? err.status : 502 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateRandomString, sha256 } from "@/lib/oidc/pkce";
+import { FormParams, getRedirectUri } from "@/lib/bff/client";
+import { prepareAuthorizationParams } from "@/lib/bff/request-object";
+import { resolveEndpoint, toProxyUrl } from "@/lib/oidc/discovery";
+import { getDefaultProvider, getProvider } from "@/lib/oidc/providers";
+import { createTransaction } from "@/lib/bff/session";
+
+// Starts the authorization code flow on the server. PKCE verifier, state and
+// nonce stay in the server-side transaction store. ?par=true|false and
+// ?jar=true|false override the provider's usePar / useJar settings.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const providerId = searchParams.get("provider");
+  const flag = (key: string, fallback?: boolean) =>
+    searchParams.has(key) ? searchParams.get(key) === "true" : fallback;
+
+  let provider;
+  let redirectUri;
+  let authorizationEndpoint;
+  try {
+    provider = providerId ? getProvider(providerId) : getDefaultProvider();
+    redirectUri = getRedirectUri(provider);
+    authorizationEndpoint = await resolveEndpoint(
+      provider.issuer,
+      "authorization_endpoint"
+    );
+  } catch (err) {
+    const home = new URL("/", request.url);
+    home.searchParams.set(
+      "error",
+      err instanceof Error ? err.message : "Failed to start BFF login"
+    );
+    return NextResponse.redirect(home);
+  }
+
+  const codeVerifier = generateRandomString(128);
+  const state = generateRandomString(32);
+  const nonce = generateRandomString(32);
+
+  const authParams: FormParams = {
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scopes.join(" "),
+    response_type: "code",
+    code_challenge: await sha256(codeVerifier),
+    code_challenge_method: "S256",
+    state,
+    nonce,
+  };
+  if (provider.resources.length > 0) authParams.resource = provider.resources;
+
+  let params;
+  try {
+    params = await prepareAuthorizationParams(provider, authParams, {
+      par: flag("par", provider.usePar),
+      jar: flag("jar", provider.useJar),
+    });
+  } catch (err) {
+    const home = new URL("/", request.url);
+    home.searchParams.set(
+      "error",
+      err instanceof Error
+        ? err.message
+        : "Failed to prepare the authorization request"
+    );
+    return NextResponse.redirect(home);
+  }
+
+  // Go through the provider's proxy path, when it has one, so provider
+  // cookies are set on this origin
+  const url = toProxyUrl(
+    authorizationEndpoint,
+    provider.issuer,
+    provider.proxyPath
+  );
+  const response = NextResponse.redirect(
+    new URL(`${url}?${params.toString()}`, request.url)
+  );
+  createTransaction(
+    { providerId: provider.id, state, nonce, codeVerifier },
+    response
+  );
+
+  return response;
+}
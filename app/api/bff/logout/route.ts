@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildEndSessionUrl } from "@/lib/bff/client";
+import { destroySession, getSession } from "@/lib/bff/session";
+import { getDefaultProvider, getProvider } from "@/lib/oidc/providers";
+
+// Ends the local BFF session and continues with RP-initiated logout at the
+// provider, using the ID token that never left the server
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  const provider = session
+    ? getProvider(session.providerId)
+    : getDefaultProvider();
+
+  let response;
+  try {
+    response = NextResponse.redirect(
+      await buildEndSessionUrl(provider, {
+        idToken: session?.tokens.idToken,
+      })
+    );
+  } catch (err) {
+    // The local session is still cleared when the provider cannot log out
+    const home = new URL("/", request.url);
+    home.searchParams.set(
+      "error",
+      err instanceof Error ? err.message : "Provider logout failed"
+    );
+    response = NextResponse.redirect(home);
+  }
+
+  destroySession(request, response);
+  return response;
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshTokens, toBffTokens } from "@/lib/bff/client";
+import { OAuthError } from "@/lib/oidc/errors";
+import {
+  destroySession,
+  getSession,
+  toSessionSummary,
+  updateSessionTokens,
+} from "@/lib/bff/session";
+import { getProvider } from "@/lib/oidc/providers";
+
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!session.tokens.refreshToken) {
+    return NextResponse.json(
+      { error: "No refresh token found." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tokenData = await refreshTokens(
+      getProvider(session.providerId),
+      session.tokens.refreshToken
+    );
+    updateSessionTokens(session, toBffTokens(tokenData, session.tokens));
+    return NextResponse.json(toSessionSummary(session));
+  } catch (err) {
+    // A dead refresh token means the session cannot be recovered
+    if (err instanceof OAuthError && err.error === "invalid_grant") {
+      const response = NextResponse.json(
+        { error: "Refresh token is no longer valid. Please log in again." },
+        { status: 401 }
+      );
+      destroySession(request, response);
+      return response;
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Token refresh failed" },
+      { status: 502 }
+    );
+  }
+}
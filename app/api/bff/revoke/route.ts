@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TokenTypeHint } from "@/lib/bff/client";
+import { revokeAndVerify } from "@/lib/bff/revocation";
+import { destroySession, getSession } from "@/lib/bff/session";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Revokes the session's refresh token, or its access token with
+// { "token_type_hint": "access_token" }, and reports the post-revocation
+// checks. Revoking the refresh token ends the BFF session; after revoking
+// the access token the session can still refresh.
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const tokenTypeHint: TokenTypeHint =
+    body.token_type_hint === "access_token" ? "access_token" : "refresh_token";
+
+  let report;
+  try {
+    report = await revokeAndVerify(
+      getProvider(session.providerId),
+      session.tokens,
+      tokenTypeHint
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Token revocation failed" },
+      { status: err instanceof OAuthError ? err.status : 502 }
+    );
+  }
+
+  const response = NextResponse.json(report);
+  if (tokenTypeHint === "refresh_token") {
+    destroySession(request, response);
+  }
+  return response;
+}
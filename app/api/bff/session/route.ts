@@ -0,0 +1,6 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, toSessionSummary } from "@/lib/bff/session";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(toSessionSummary(getSession(request)));
+}
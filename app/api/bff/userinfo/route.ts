@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchUserInfo } from "@/lib/bff/client";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getSession } from "@/lib/bff/session";
+import { getProvider } from "@/lib/oidc/providers";
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(
+      await fetchUserInfo(
+        getProvider(session.providerId),
+        session.tokens.accessToken,
+        session.tokens.tokenType
+      )
+    );
+  } catch (err) {
+    const status = err instanceof OAuthError ? err.status : 502;
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Failed to get user info" },
+      { status }
+    );
+  }
+}
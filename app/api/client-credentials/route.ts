@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getServiceToken,
+  summarizeServiceToken,
+} from "@/lib/bff/service-token";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Development helper: client credentials tester for the test client. Takes
+// { provider, scope, resource, force } and describes the service token
+// getServiceToken hands to route handlers: audience, scope, expiry and
+// whether it came from the cache, but not the token. Not served in
+// production, where it would let anyone fill the token cache.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.provider !== "string") {
+    return NextResponse.json(
+      { error: "invalid_request", error_description: "provider is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    getProvider(body.provider);
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: err instanceof Error ? err.message : String(err),
+      },
+      { status: 400 }
+    );
+  }
+
+  const scopes =
+    typeof body.scope === "string" ? body.scope.split(" ").filter(Boolean) : [];
+  const resource =
+    typeof body.resource === "string" && body.resource
+      ? body.resource
+      : undefined;
+
+  try {
+    return NextResponse.json(
+      summarizeServiceToken(
+        await getServiceToken(scopes, resource, {
+          provider: body.provider,
+          forceRefresh: body.force === true,
+        })
+      )
+    );
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: err instanceof OAuthError ? err.error : "token_request_failed",
+        error_description:
+          err instanceof Error ? err.message : "Token request failed",
+      },
+      { status: err instanceof OAuthError ? err.status : 502 }
+    );
+  }
+}
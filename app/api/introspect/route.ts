@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TokenTypeHint } from "@/lib/bff/client";
+import { introspect } from "@/lib/bff/introspection";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Development helper: introspection for the browser test client, which holds
+// its tokens but not the client credentials. Takes { provider, token,
+// token_type_hint } and introspects as that provider's client. Anyone could
+// use it to read the claims of any token, so it is not served in production,
+// where the browser asks the provider as the public client instead.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.provider !== "string" || typeof body.token !== "string") {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: "provider and token are required",
+      },
+      { status: 400 }
+    );
+  }
+
+  let provider;
+  try {
+    provider = getProvider(body.provider);
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: err instanceof Error ? err.message : String(err),
+      },
+      { status: 400 }
+    );
+  }
+
+  const tokenTypeHint: TokenTypeHint | undefined =
+    body.token_type_hint === "access_token" ||
+    body.token_type_hint === "refresh_token"
+      ? body.token_type_hint
+      : undefined;
+
+  try {
+    return NextResponse.json(
+      await introspect(provider, body.token, { tokenTypeHint })
+    );
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: err instanceof OAuthError ? err.error : "introspection_failed",
+        error_description:
+          err instanceof Error ? err.message : "Token introspection failed",
+      },
+      { status: err instanceof OAuthError ? err.status : 502 }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { redirectToAuthorization } from "@/lib/bff/authorization-redirect";
+
+// JWT-Secured Authorization Requests (RFC 9101) for the browser test client
+// and NextAuth: signs the authorization parameters as a request object with
+// the client's key and redirects with client_id and request. Add ?par=true to
+// push the request object instead.
+export async function GET(request: NextRequest) {
+  return redirectToAuthorization(request, { jar: true });
+}
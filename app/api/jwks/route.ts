@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getClientJwks } from "@/lib/oidc/client-keys";
+
+// The client's public keys (jwks_uri to register at the provider), used to
+// verify its signed request objects and private_key_jwt client assertions
+export async function GET() {
+  try {
+    return NextResponse.json(await getClientJwks(), {
+      headers: { "Cache-Control": "public, max-age=300" },
+    });
+  } catch (error) {
+    console.error("Client JWKS error:", error);
+    return NextResponse.json(
+      {
+        error: "Invalid client key configuration",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
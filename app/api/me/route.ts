@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { withAccessToken } from "@/lib/resource-server/with-access-token";
+
+// Sample protected API: who the presented access token belongs to. Requires
+// the openid scope and, when RESOURCE_SERVER_AUDIENCE is set, a token issued
+// for that audience.
+export const GET = withAccessToken(
+  async (_request, auth) =>
+    NextResponse.json({
+      sub: auth.claims.sub,
+      clientId: auth.claims.client_id,
+      provider: auth.provider.id,
+      scheme: auth.scheme,
+      validatedBy: auth.validatedBy,
+      scopes: auth.scopes,
+      audiences: auth.audiences,
+      expiresAt:
+        typeof auth.claims.exp === "number"
+          ? new Date(auth.claims.exp * 1000).toISOString()
+          : undefined,
+    }),
+  {
+    scopes: ["openid"],
+    audience: process.env.RESOURCE_SERVER_AUDIENCE,
+  }
+);
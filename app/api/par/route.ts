@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { redirectToAuthorization } from "@/lib/bff/authorization-redirect";
+
+// Pushed Authorization Requests (RFC 9126) for the browser test client and
+// NextAuth: pushes the authorization parameters with the provider's client
+// authentication and redirects with only client_id and request_uri. Add
+// ?jar=true to push a signed request object.
+export async function GET(request: NextRequest) {
+  return redirectToAuthorization(request, { par: true });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import {
+  getDefaultProvider,
+  getInteractionProvider,
+  listPublicProviders,
+} from "@/lib/oidc/providers";
+
+// Public provider registry for the test client (client secrets omitted)
+export async function GET() {
+  try {
+    return NextResponse.json({
+      providers: listPublicProviders(),
+      defaultProviderId: getDefaultProvider().id,
+      // Where the login and consent pages reach the provider's interactions
+      interactionPath: getInteractionProvider()?.proxyPath ?? null,
+    });
+  } catch (error) {
+    console.error("Provider registry error:", error);
+    return NextResponse.json(
+      {
+        error: "Invalid provider configuration",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,84 @@
 import { NextRequest, NextResponse } from "next/server";
+import { rewriteSetCookie, toCookieHeader } from "@/lib/oidc/cookies";
+import { resolveEndpoint } from "@/lib/oidc/discovery";
+import {
+  extractInteractionUid,
+  fetchInteractionDetails,
+  InteractionDetails,
+} from "@/lib/oidc/interaction";
+import { generateRandomString, sha256 } from "@/lib/oidc/pkce";
+import {
+  getDefaultProvider,
+  getProvider,
+  getTestClientRedirectUri,
+} from "@/lib/oidc/providers";
 
+// Bootstraps an interaction without a browser redirect: starts an
+// authorization request server-side, forwards the provider's interaction
+// cookies to the browser and returns the interaction UID and prompt.
+//
+// Query parameters (all optional):
+//   client          provider id from the registry
+//   scope           space-separated scopes (defaults to the provider's)
+//   prompt          e.g. login, consent
+//   code_challenge  S256 challenge; a fresh PKCE pair is generated if absent
 export async function GET(request: NextRequest) {
-  // The OIDC Auth URL
-  const oidcUrl =
-    "http://localhost:4001/oidc/auth?client_id=partner-dashboard-local-2&redirect_uri=http://localhost:3000/auth/callback&scope=openid profile email offline_access&response_type=code&code_challenge=d46e066c84bb8463c3a3e577419df6f6ca56dca4bd2d6cd631f854f59ee37144666cba9ca54b468de0a4efcc112089e1&code_challenge_method=S256";
+  const { searchParams } = request.nextUrl;
 
   try {
-    const res = await fetch(oidcUrl, {
+    const clientId = searchParams.get("client");
+    const provider = clientId ? getProvider(clientId) : getDefaultProvider();
+
+    const redirectUri = getTestClientRedirectUri(provider);
+    if (!redirectUri) {
+      return NextResponse.json(
+        {
+          error: "invalid_client",
+          message: `Provider ${provider.id} has no /auth/callback redirect URI registered`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Fresh PKCE pair unless the caller brings its own challenge
+    const codeVerifier = searchParams.get("code_challenge")
+      ? undefined
+      : generateRandomString(128);
+    const codeChallenge =
+      searchParams.get("code_challenge") ?? (await sha256(codeVerifier!));
+
+    const params = new URLSearchParams({
+      client_id: provider.clientId,
+      redirect_uri: redirectUri,
+      scope: searchParams.get("scope") ?? provider.scopes.join(" "),
+      response_type: "code",
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      state: generateRandomString(32),
+      nonce: generateRandomString(32),
+    });
+    const prompt = searchParams.get("prompt");
+    if (prompt) params.set("prompt", prompt);
+
+    // The OIDC Auth URL
+    const authorizationEndpoint = await resolveEndpoint(
+      provider.issuer,
+      "authorization_endpoint"
+    );
+
+    const res = await fetch(`${authorizationEndpoint}?${params.toString()}`, {
       method: "GET",
       redirect: "manual", // We want to inspect the redirect
+      cache: "no-store",
     });
 
     const location = res.headers.get("location");
-    const setCookie = res.headers.get("set-cookie");
+    const setCookies = res.headers.getSetCookie();
 
     console.log("Proxy Auth - Location:", location);
-    console.log("Proxy Auth - Set-Cookie:", setCookie);
+    console.log("Proxy Auth - Set-Cookie count:", setCookies.length);
 
-    // Extract UID from location
-    let uid = null;
-    if (location && location.includes("/interaction/")) {
-      const parts = location.split("/");
-      uid = parts[parts.length - 1];
-    }
+    const uid = location ? extractInteractionUid(location) : null;
 
     if (!uid) {
       return NextResponse.json(
@@ -30,33 +86,54 @@ export async function GET(request: NextRequest) {
           error: "Failed to extract UID from redirect",
           details: { location, status: res.status },
         },
-        { status: 500 }
+        { status: 502 }
       );
     }
 
-    const response = NextResponse.json({ uid });
+    // The interaction cookies are needed to read the prompt details
+    let interaction: InteractionDetails | null = null;
+    let interactionError: string | undefined;
+    try {
+      interaction = await fetchInteractionDetails(
+        provider,
+        uid,
+        toCookieHeader(setCookies)
+      );
+    } catch (err) {
+      interactionError = err instanceof Error ? err.message : String(err);
+    }
 
-    // Forward Cookies
-    if (setCookie) {
-      // Simple forwarding. For robust handling of multiple cookies, we might need parsing.
-      // But fetch usually combines them or we can iterate if it's an array (Node 18+ headers).
-      // Here we assume it's a string or we set it directly.
-      // Important: Strip 'Secure' if running on HTTP localhost, and strip 'Domain' to allow localhost.
-      const adjustedCookie = setCookie
-        .replace(/Domain=[^;]+;?/gi, "")
-        .replace(/Secure;?/gi, ""); // Optional: only if localhost is HTTP
+    const response = NextResponse.json({
+      uid,
+      provider: provider.id,
+      prompt: interaction?.prompt ?? null,
+      params: interaction?.params ?? Object.fromEntries(params),
+      client: interaction?.client ?? null,
+      interactionError,
+      // Only returned when generated here, so the caller can redeem the code
+      codeVerifier,
+    });
 
-      response.headers.set("Set-Cookie", adjustedCookie);
+    // Forward every cookie individually, rewritten for this app's host
+    const issuerPath = new URL(provider.issuer).pathname;
+    for (const cookie of setCookies) {
+      response.headers.append(
+        "Set-Cookie",
+        rewriteSetCookie(cookie, {
+          secure: request.nextUrl.protocol === "https:",
+          fromPath: issuerPath,
+          toPath: provider.proxyPath ?? issuerPath,
+        })
+      );
     }
 
     return response;
-  } catch (error: any) {
+  } catch (error) {
     console.error("Proxy Auth Error:", error);
     return NextResponse.json(
       {
         error: "Internal Server Error",
-        message: error.message,
-        stack: error.stack,
+        message: error instanceof Error ? error.message : String(error),
       },
       { status: 500 }
     );
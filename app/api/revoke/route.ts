@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TokenTypeHint } from "@/lib/bff/client";
+import { revokeAndVerify } from "@/lib/bff/revocation";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Development helper: revocation for the browser test client, made as the
+// provider's client like /api/introspect. Takes { provider, token_type_hint,
+// access_token, refresh_token, dpop_jkt }: the token named by the hint is
+// revoked, and both are used for the post-revocation checks. dpop_jkt is the
+// thumbprint of the browser's DPoP key, for DPoP-bound tokens. Not served in
+// production, where it would revoke and probe any token it is given; the
+// browser revokes as the public client there, without the checks.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.provider !== "string") {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: "provider is required",
+      },
+      { status: 400 }
+    );
+  }
+
+  let provider;
+  try {
+    provider = getProvider(body.provider);
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: "invalid_request",
+        error_description: err instanceof Error ? err.message : String(err),
+      },
+      { status: 400 }
+    );
+  }
+
+  const tokenTypeHint: TokenTypeHint =
+    body.token_type_hint === "access_token" ? "access_token" : "refresh_token";
+  const tokenOrUndefined = (value: unknown) =>
+    typeof value === "string" && value ? value : undefined;
+
+  try {
+    return NextResponse.json(
+      await revokeAndVerify(
+        provider,
+        {
+          accessToken: tokenOrUndefined(body.access_token),
+          refreshToken: tokenOrUndefined(body.refresh_token),
+          dpopJkt: tokenOrUndefined(body.dpop_jkt),
+        },
+        tokenTypeHint
+      )
+    );
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: err instanceof OAuthError ? err.error : "revocation_failed",
+        error_description:
+          err instanceof Error ? err.message : "Token revocation failed",
+      },
+      { status: err instanceof OAuthError ? err.status : 502 }
+    );
+  }
+}
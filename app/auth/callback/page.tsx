@@ -1,85 +1,94 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
+import {
+  CallbackValidationError,
+  completeAuthorization,
+  consumeAuthRequest,
+  describeInteractionRequired,
+} from "@/lib/oidc/authorization";
+import { saveTokens } from "@/lib/oidc/token-store";
+import { postAuthorizationResponse } from "@/lib/oidc/silent-auth";
+
+interface CallbackError {
+  title: string;
+  message: string;
+}
 
 export default function AuthCallbackPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
 
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<CallbackError | null>(null);
   const [exchanging, setExchanging] = useState(false);
 
+  // The authorization code and stored state are single-use, so make sure the
+  // callback is only processed once (effects run twice in development)
+  const handled = useRef(false);
+
   useEffect(() => {
-    const code = searchParams.get("code");
-    const errorParam = searchParams.get("error");
-    const errorDescription = searchParams.get("error_description");
+    if (handled.current) return;
+    handled.current = true;
 
-    // Handle error from OIDC provider
-    if (errorParam) {
-      setError(`${errorParam}: ${errorDescription || "Unknown error"}`);
+    // In BFF mode the server holds the PKCE verifier, state and nonce, so
+    // hand the whole response over to the BFF callback route
+    if (localStorage.getItem("client_mode") === "bff") {
+      window.location.replace(`/api/bff/callback${window.location.search}`);
       return;
     }
 
-    // Check if code exists
-    if (!code) {
-      setError("Authorization code missing");
+    // Silent authentication runs this page in a hidden iframe, popup login
+    // in a window we opened; the parent/opener holds the request and does the
+    // exchange
+    if (window.parent !== window) {
+      postAuthorizationResponse(window.parent, window.location.search);
+      return;
+    }
+    if (window.opener && window.opener !== window) {
+      postAuthorizationResponse(window.opener, window.location.search);
       return;
     }
 
-    // Automatically exchange code for tokens
-    exchangeCodeForTokens(code);
+    exchangeCodeForTokens(new URLSearchParams(window.location.search));
   }, [searchParams]);
 
-  const exchangeCodeForTokens = async (code: string) => {
+  const exchangeCodeForTokens = async (response: URLSearchParams) => {
     setExchanging(true);
 
     try {
-      const codeVerifier = sessionStorage.getItem("code_verifier");
-      if (!codeVerifier) {
-        throw new Error(
-          "Code verifier not found. Please start the auth flow from the home page."
-        );
-      }
+      const tokenData = await completeAuthorization(
+        response,
+        consumeAuthRequest()
+      );
 
-      const params = new URLSearchParams({
-        grant_type: "authorization_code",
-        code: code,
-        redirect_uri: "http://localhost:3000/auth/callback",
-        client_id: "partner-dashboard-local-2",
-        code_verifier: codeVerifier,
-      });
-
-      const response = await fetch("/oidc/token", {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params.toString(),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error_description || "Token exchange failed");
-      }
-
-      const tokenData = await response.json();
-
-      // Store tokens
-      sessionStorage.setItem("access_token", tokenData.access_token);
-      sessionStorage.setItem("id_token", tokenData.id_token);
-      if (tokenData.refresh_token) {
-        sessionStorage.setItem("refresh_token", tokenData.refresh_token);
-      }
-
-      // Store full token response for display
-      sessionStorage.setItem("tokens", JSON.stringify(tokenData));
+      // Store the token response and each token, with its absolute expiry
+      saveTokens(tokenData);
 
       // Redirect back to home page
       setTimeout(() => {
         router.push("/");
       }, 1500);
-    } catch (err: any) {
+    } catch (err) {
+      // A prompt=none request that ended up here as a full-page redirect:
+      // the user just has to log in normally
+      const interactionRequired = describeInteractionRequired(err);
+      if (interactionRequired) {
+        setError({
+          title: "Sign-in Required",
+          message: `${interactionRequired} Go back and use Login to continue.`,
+        });
+        return;
+      }
+
       console.error("Token exchange error:", err);
-      setError(err.message);
+      setError({
+        title:
+          err instanceof CallbackValidationError
+            ? err.title
+            : "Authentication Error",
+        message: err instanceof Error ? err.message : String(err),
+      });
     } finally {
       setExchanging(false);
     }
@@ -106,9 +115,9 @@ export default function AuthCallbackPage() {
               </svg>
             </div>
             <h1 className="text-lg font-semibold text-red-600 mb-2">
-              Authentication Error
+              {error.title}
             </h1>
-            <p className="text-sm text-gray-600 mb-4">{error}</p>
+            <p className="text-sm text-gray-600 mb-4">{error.message}</p>
             <button
               onClick={() => router.push("/")}
               className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import { broadcastFrontChannelLogout } from "@/hooks/useTokenManager";
+
+// OpenID Connect Front-Channel Logout receiver. Register this URL as the
+// client's frontchannel_logout_uri; the provider loads it in a hidden iframe
+// with ?iss=...&sid=... when the user logs out there. The iframe can't reach
+// the tabs' sessionStorage directly, so it broadcasts to them. Any site can
+// load this page, so the tabs only log out when iss and sid name their
+// session (lib/oidc/frontchannel-logout.ts).
+export default function FrontChannelLogoutPage() {
+  const searchParams = useSearchParams();
+  const iss = searchParams.get("iss");
+  const sid = searchParams.get("sid");
+
+  useEffect(() => {
+    broadcastFrontChannelLogout(iss, sid);
+  }, [iss, sid]);
+
+  return <p className="p-4 text-sm text-gray-600">Logged out.</p>;
+}
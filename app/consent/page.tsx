@@ -2,6 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { useSearchParams } from "next/navigation";
+import type { ConsentDetails } from "@/lib/oidc/interaction";
+import {
+  abortInteraction,
+  fetchInteractionPath,
+  interactionUrl,
+  submitInteractionForm,
+} from "@/lib/oidc/interaction-forms";
 
 export default function ConsentPage() {
   const searchParams = useSearchParams();
@@ -9,29 +16,71 @@ export default function ConsentPage() {
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [scopes, setScopes] = useState<string[]>([]);
+  const [details, setDetails] = useState<ConsentDetails | null>(null);
+  const [interactionPath, setInteractionPath] = useState<string | null>(null);
+  // Optional scopes the user has deselected
+  const [deselected, setDeselected] = useState<string[]>([]);
 
   useEffect(() => {
-    // You could fetch interaction details here to show what scopes are requested
-    // For now, we'll use the default scopes from the URL
-    setScopes(["openid", "profile", "email", "offline_access"]);
+    if (!uid) return;
+
+    // Load the requested scopes, claims and client from the interaction
+    fetchInteractionPath()
+      .then(async (path) => {
+        setInteractionPath(path);
+        const response = await fetch(interactionUrl(path, uid, "details"));
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || data.error);
+        }
+        setDetails(data);
+      })
+      .catch((err) =>
+        setError(`Could not load the authorization request: ${err.message}`)
+      );
   }, [uid]);
 
+  const toggleScope = (scope: string) => {
+    setDeselected((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    );
+  };
+
   const handleConsent = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!uid) {
       setError("No interaction UID found");
       return;
     }
+    // Without the details there is nothing to narrow the grant down to
+    if (!details || !interactionPath) return;
 
     setLoading(true);
 
-    // Use a form submission instead of fetch to allow natural redirects
-    const form = document.createElement("form");
-    form.method = "POST";
-    form.action = `/oidc/interaction/${uid}/consent`;
-    document.body.appendChild(form);
-    form.submit();
+    const grantedScopes = details.scopes
+      .map((scope) => scope.value)
+      .filter((scope) => !deselected.includes(scope));
+
+    submitInteractionForm(interactionUrl(interactionPath, uid, "consent"), {
+      scope: grantedScopes.join(" "),
+    });
+  };
+
+  const handleDeny = () => {
+    if (!uid) {
+      setError("No interaction UID found");
+      return;
+    }
+    if (!interactionPath) return;
+
+    setLoading(true);
+    abortInteraction(
+      interactionPath,
+      uid,
+      "End-User denied the consent request"
+    );
   };
 
   if (!uid) {
@@ -47,11 +96,33 @@ export default function ConsentPage() {
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans">
       <main className="flex w-full max-w-md flex-col gap-6 py-10 px-8 bg-white shadow-lg rounded-xl">
-        <div>
-          <h1 className="text-2xl font-bold text-gray-800">Grant Permission</h1>
-          <p className="text-sm text-gray-500 mt-1">
-            The application is requesting access to your account
-          </p>
+        <div className="flex items-center gap-4">
+          {details?.client.logoUri && (
+            // Client logos are arbitrary remote URLs
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={details.client.logoUri}
+              alt={`${details.client.name} logo`}
+              className="w-12 h-12 rounded object-contain border"
+            />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">
+              Grant Permission
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {details ? (
+                <>
+                  <strong className="text-gray-700">
+                    {details.client.name}
+                  </strong>{" "}
+                  is requesting access to your account
+                </>
+              ) : (
+                "The application is requesting access to your account"
+              )}
+            </p>
+          </div>
         </div>
 
         {error && (
@@ -60,42 +131,110 @@ export default function ConsentPage() {
           </div>
         )}
 
-        <div className="bg-gray-50 p-4 rounded-lg">
-          <p className="text-sm font-medium text-gray-700 mb-3">
-            This application will be able to:
-          </p>
-          <ul className="space-y-2">
-            {scopes.map((scope) => (
-              <li
-                key={scope}
-                className="flex items-center gap-2 text-sm text-gray-600"
-              >
-                <svg
-                  className="w-4 h-4 text-green-600"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M5 13l4 4L19 7"
-                  />
-                </svg>
-                <span className="capitalize">{scope}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
+        {!details && !error && (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+          </div>
+        )}
+
+        {details && (
+          <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-3">
+                This application will be able to:
+              </p>
+              <ul className="space-y-2">
+                {details.scopes.map((scope) => (
+                  <li key={scope.value}>
+                    <label className="flex items-start gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        className="mt-0.5"
+                        checked={!deselected.includes(scope.value)}
+                        disabled={scope.required || loading}
+                        onChange={() => toggleScope(scope.value)}
+                      />
+                      <span>
+                        {scope.description}
+                        <span className="block text-xs text-gray-400 font-mono">
+                          {scope.value}
+                          {scope.required && " · required"}
+                          {scope.missing && " · new"}
+                        </span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {details.claims.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  It will also receive:
+                </p>
+                <ul className="list-disc list-inside text-sm text-gray-600">
+                  {details.claims.map((claim) => (
+                    <li key={claim.value}>{claim.description}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {details.resources.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  On these APIs:
+                </p>
+                <ul className="space-y-1 text-sm text-gray-600">
+                  {details.resources.map((resource) => (
+                    <li key={resource.resource}>
+                      <span className="font-mono break-all">
+                        {resource.resource}
+                      </span>
+                      {resource.scopes.length > 0 && (
+                        <span className="block text-xs text-gray-400">
+                          {resource.scopes.join(", ")}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
-        <form onSubmit={handleConsent}>
+            {(details.client.policyUri || details.client.tosUri) && (
+              <p className="text-xs text-gray-400 space-x-3">
+                {details.client.policyUri && (
+                  <a href={details.client.policyUri} className="underline">
+                    Privacy policy
+                  </a>
+                )}
+                {details.client.tosUri && (
+                  <a href={details.client.tosUri} className="underline">
+                    Terms of service
+                  </a>
+                )}
+              </p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleConsent} className="flex gap-3">
+          <button
+            type="button"
+            onClick={handleDeny}
+            disabled={loading || !interactionPath}
+            className="w-full border border-gray-300 text-gray-700 px-4 py-3 rounded hover:bg-gray-50 disabled:opacity-50 transition font-medium"
+          >
+            Deny
+          </button>
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || !details}
             className="w-full bg-green-600 text-white px-4 py-3 rounded hover:bg-green-700 disabled:opacity-50 transition font-medium"
           >
-            {loading ? "Authorizing..." : "Authorize"}
+            {loading ? "Submitting..." : "Authorize"}
           </button>
         </form>
 
@@ -1,16 +1,77 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
+import {
+  abortInteraction,
+  fetchInteractionPath,
+  interactionUrl,
+} from "@/lib/oidc/interaction-forms";
+
+// Demo account for local testing, only offered outside production
+const DEMO_CREDENTIALS =
+  process.env.NODE_ENV !== "production"
+    ? {
+        email: process.env.NEXT_PUBLIC_DEMO_EMAIL ?? "alex.master@example.com",
+        password: process.env.NEXT_PUBLIC_DEMO_PASSWORD ?? "User@123",
+      }
+    : null;
+
+// Messages for errors the provider reports back via ?error=
+const LOGIN_ERRORS: Record<string, string> = {
+  invalid_credentials: "The email or password you entered is incorrect.",
+  account_locked:
+    "Your account has been locked after too many failed attempts. Try again later or contact support.",
+  account_disabled: "Your account has been disabled. Please contact support.",
+  interaction_expired:
+    "This sign-in request has expired. Return to the application and start again.",
+  login_required: "Please sign in to continue.",
+};
+
+const EXPIRED_STATUSES = [400, 404];
+
+function describeLoginError(error: string, description: string | null) {
+  return description || LOGIN_ERRORS[error] || `Sign-in failed: ${error}`;
+}
 
 export default function LoginPage() {
   const searchParams = useSearchParams();
   const uid = searchParams.get("uid");
+  const errorParam = searchParams.get("error");
 
-  const [email, setEmail] = useState("alex.master@example.com");
-  const [password, setPassword] = useState("User@123");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    errorParam
+      ? describeLoginError(errorParam, searchParams.get("error_description"))
+      : null
+  );
+  const [expired, setExpired] = useState(false);
+  const [clientName, setClientName] = useState<string | null>(null);
+  const [interactionPath, setInteractionPath] = useState<string | null>(null);
+
+  // Check the interaction is still alive before asking for credentials
+  useEffect(() => {
+    if (!uid) return;
+
+    fetchInteractionPath()
+      .then((path) => {
+        setInteractionPath(path);
+        return fetch(interactionUrl(path, uid, "details"))
+          .then(async (response) => {
+            const data = await response.json();
+            if (response.ok) {
+              setClientName(data.client?.name ?? null);
+            } else if (EXPIRED_STATUSES.includes(response.status)) {
+              setExpired(true);
+              setError(LOGIN_ERRORS.interaction_expired);
+            }
+          })
+          .catch((err) => console.error("Failed to load interaction:", err));
+      })
+      .catch((err) => setError(err.message));
+  }, [uid]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -18,16 +79,35 @@ export default function LoginPage() {
       setError("No interaction UID found");
       return;
     }
+    if (!interactionPath) return;
 
     setLoading(true);
 
     // Use a form submission instead of fetch to allow natural redirects
     const form = e.target as HTMLFormElement;
-    form.action = `/oidc/interaction/${uid}/login`;
+    form.action = interactionUrl(interactionPath, uid, "login");
     form.method = "POST";
     form.submit();
   };
 
+  const handleCancel = () => {
+    if (!uid) {
+      setError("No interaction UID found");
+      return;
+    }
+
+    if (!interactionPath) return;
+
+    setLoading(true);
+    abortInteraction(interactionPath, uid, "End-User cancelled the login");
+  };
+
+  const fillDemoCredentials = () => {
+    if (!DEMO_CREDENTIALS) return;
+    setEmail(DEMO_CREDENTIALS.email);
+    setPassword(DEMO_CREDENTIALS.password);
+  };
+
   if (!uid) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-zinc-50">
@@ -44,7 +124,9 @@ export default function LoginPage() {
         <div>
           <h1 className="text-2xl font-bold text-gray-800">Sign In</h1>
           <p className="text-sm text-gray-500 mt-1">
-            Enter your credentials to continue
+            {clientName
+              ? `Enter your credentials to continue to ${clientName}`
+              : "Enter your credentials to continue"}
           </p>
         </div>
 
@@ -66,8 +148,10 @@ export default function LoginPage() {
               id="email"
               name="email"
               type="email"
+              autoComplete="username"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
+              disabled={expired}
               className="border border-gray-300 p-2 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
             />
@@ -84,8 +168,10 @@ export default function LoginPage() {
               id="password"
               name="password"
               type="password"
+              autoComplete="current-password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
+              disabled={expired}
               className="border border-gray-300 p-2 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
             />
@@ -93,13 +179,33 @@ export default function LoginPage() {
 
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || expired || !interactionPath}
             className="w-full bg-blue-600 text-white px-4 py-3 rounded hover:bg-blue-700 disabled:opacity-50 transition font-medium"
           >
             {loading ? "Signing in..." : "Sign In"}
           </button>
+
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={loading || expired || !interactionPath}
+            className="w-full border border-gray-300 text-gray-700 px-4 py-3 rounded hover:bg-gray-50 disabled:opacity-50 transition font-medium"
+          >
+            Cancel
+          </button>
         </form>
 
+        {DEMO_CREDENTIALS && (
+          <button
+            type="button"
+            onClick={fillDemoCredentials}
+            disabled={expired}
+            className="text-xs text-blue-600 hover:underline self-start disabled:opacity-50"
+          >
+            Use demo credentials (development only)
+          </button>
+        )}
+
         <div className="text-xs text-gray-400 font-mono bg-gray-50 p-2 rounded break-all">
           UID: {uid}
         </div>
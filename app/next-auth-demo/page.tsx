@@ -1,12 +1,34 @@
 "use client";
 
 import SessionProvider from "@/components/SessionProvider";
-import { useSession, signIn, signOut } from "next-auth/react";
-import { useState } from "react";
+import {
+  ClientSafeProvider,
+  getProviders,
+  signIn,
+  useSession,
+} from "next-auth/react";
+import { useSearchParams } from "next/navigation";
+import { useEffect, useState } from "react";
 
 function AuthStatus() {
-  const { data: session, status } = useSession();
+  const { data: session, status, update } = useSession();
+  const searchParams = useSearchParams();
+  const [revokeOnLogout, setRevokeOnLogout] = useState(false);
+  const [resource, setResource] = useState("");
+  const [resourceScope, setResourceScope] = useState("");
+  // NextAuth providers from the registry
+  const [providers, setProviders] = useState<ClientSafeProvider[]>([]);
+  // Set by /api/auth/post-logout and /api/auth/federated-logout
+  const logoutResult = searchParams.get("logout");
+  const logoutError = searchParams.get("error");
   console.log("this is the session", session);
+
+  useEffect(() => {
+    getProviders().then((registered) =>
+      setProviders(Object.values(registered ?? {}))
+    );
+  }, []);
+
   if (status === "loading") {
     return <div className="p-4">Loading session...</div>;
   }
@@ -17,6 +39,18 @@ function AuthStatus() {
         <h1 className="text-2xl font-bold text-green-600">
           Authenticated via NextAuth!
         </h1>
+        {/* The refresh token was rejected; only a new sign-in helps */}
+        {session.error === "RefreshAccessTokenError" && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded text-yellow-800">
+            <p>Your session could not be refreshed. Please sign in again.</p>
+            <button
+              onClick={() => signIn(session.provider)}
+              className="mt-2 px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700"
+            >
+              Sign in again
+            </button>
+          </div>
+        )}
         <div className="bg-gray-100 p-4 rounded border">
           <p>
             <strong>User:</strong> {session.user?.name}
@@ -27,17 +61,100 @@ function AuthStatus() {
           <p>
             <strong>ID:</strong> {session.user?.id}
           </p>
-          <p className="mt-2 text-sm text-gray-500 break-all">
-            <strong>Access Token:</strong> {session.accessToken}
-          </p>
+          {session.accessToken && (
+            <p className="mt-2 text-sm text-gray-500 break-all">
+              <strong>Access Token:</strong> {session.accessToken}
+            </p>
+          )}
+          {session.tokenType && (
+            <p className="text-sm text-gray-500">
+              <strong>Token Type:</strong> {session.tokenType}
+              {session.tokenType.toLowerCase() === "dpop" &&
+                " (bound to the server's DPoP key, so it stays on the server)"}
+            </p>
+          )}
+          {session.serverDpopJkt && (
+            <p className="text-sm text-gray-500 break-all">
+              <strong>Bound Key (cnf.jkt):</strong>{" "}
+              {session.dpopJkt ?? "unknown (opaque token)"}
+              {session.dpopJkt &&
+                session.dpopJkt !== session.serverDpopJkt &&
+                " (a key from before a server restart; the next refresh binds the session to the current key)"}
+            </p>
+          )}
+        </div>
+
+        {/* Downscoped access tokens for other APIs (RFC 8707) */}
+        <div className="bg-gray-100 p-4 rounded border space-y-2">
+          <p className="font-semibold">API Access Tokens</p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={resource}
+              onChange={(e) => setResource(e.target.value)}
+              placeholder="Resource, e.g. https://api.example.com"
+              className="flex-1 min-w-64 rounded border bg-white px-3 py-1.5 text-sm"
+            />
+            <input
+              value={resourceScope}
+              onChange={(e) => setResourceScope(e.target.value)}
+              placeholder="Scopes (optional)"
+              className="rounded border bg-white px-3 py-1.5 text-sm"
+            />
+            <button
+              onClick={() =>
+                update({
+                  resource: resource.trim(),
+                  scope: resourceScope.trim() || undefined,
+                })
+              }
+              disabled={!resource.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Get Token
+            </button>
+          </div>
+          {session.resourceTokenError && (
+            <p className="text-sm text-red-700">{session.resourceTokenError}</p>
+          )}
+          {Object.entries(session.resourceTokens ?? {}).map(
+            ([tokenResource, token]) => (
+              <div key={tokenResource} className="text-sm text-gray-600">
+                <p className="font-medium text-gray-800">{tokenResource}</p>
+                <p>
+                  Scope: {token.scope || "(as granted)"}
+                  {token.expiresAt &&
+                    `, expires ${new Date(token.expiresAt).toLocaleTimeString()}`}
+                </p>
+                <p className="break-all text-gray-500">
+                  {token.accessToken ??
+                    `${token.tokenType} token, kept on the server`}
+                </p>
+              </div>
+            )
+          )}
         </div>
 
-        <button
-          onClick={() => signOut()}
-          className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
-        >
-          Sign Out
-        </button>
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={revokeOnLogout}
+              onChange={(e) => setRevokeOnLogout(e.target.checked)}
+            />
+            Revoke the refresh token before logging out
+          </label>
+          {/* Ends the provider session as well, unlike signOut() */}
+          <button
+            onClick={() => {
+              window.location.href = `/api/auth/federated-logout${
+                revokeOnLogout ? "?revoke=true" : ""
+              }`;
+            }}
+            className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            Sign Out
+          </button>
+        </div>
       </div>
     );
   }
@@ -47,14 +164,29 @@ function AuthStatus() {
       <h1 className="text-2xl font-bold text-gray-800">
         NextAuth Integration Test
       </h1>
+      {logoutResult === "success" && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded text-green-800">
+          Signed out of the app and the provider.
+        </div>
+      )}
+      {logoutError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded text-red-800">
+          {logoutError}
+        </div>
+      )}
       <p>You are currently not signed in.</p>
 
-      <button
-        onClick={() => signIn("vlife")}
-        className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-      >
-        Sign in with VLife
-      </button>
+      <div className="flex flex-wrap gap-2">
+        {providers.map((provider) => (
+          <button
+            key={provider.id}
+            onClick={() => signIn(provider.id)}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Sign in with {provider.name}
+          </button>
+        ))}
+      </div>
     </div>
   );
 }
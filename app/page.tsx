@@ -1,75 +1,379 @@
 "use client";
 
-import { useState, useEffect } from "react";
-
-// Helper to generate PKCE values
-function generateRandomString(length: number): string {
-  const charset =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~";
-  let result = "";
-  const randomValues = new Uint8Array(length);
-  crypto.getRandomValues(randomValues);
-  randomValues.forEach((v) => {
-    result += charset[v % charset.length];
-  });
-  return result;
+import { useState, useEffect, useRef } from "react";
+import {
+  createAuthRequest,
+  describeInteractionRequired,
+  fetchWithAccessToken,
+  revokeAsPublicClient,
+  storeAuthRequest,
+} from "@/lib/oidc/authorization";
+import { clearDpopKey, loadDpopKey } from "@/lib/oidc/dpop-key-store";
+import { popupAuthorize, silentAuthorize } from "@/lib/oidc/silent-auth";
+import type { PublicProviderConfig } from "@/lib/oidc/providers";
+import type { TokenTypeHint } from "@/lib/bff/client";
+import type { RevocationReport } from "@/lib/bff/revocation";
+import type { ServiceTokenSummary } from "@/lib/bff/service-token";
+import {
+  EndpointName,
+  getDiscoveryDocument,
+  resolveEndpoint,
+} from "@/lib/oidc/discovery";
+import {
+  introspectAsPublicClient,
+  IntrospectionResult,
+} from "@/lib/oidc/introspection";
+import { decodeJwt } from "@/lib/oidc/jwt";
+import {
+  clearTokens,
+  loadTokens,
+  StoredResourceToken,
+  saveTokens,
+  StoredTokens,
+} from "@/lib/oidc/token-store";
+import TokenInspector from "@/components/TokenInspector";
+import {
+  broadcastRevokedRefreshToken,
+  useTokenManager,
+} from "@/hooks/useTokenManager";
+import { SessionStatus, useSessionMonitor } from "@/hooks/useSessionMonitor";
+
+// "browser": public client, tokens in sessionStorage
+// "bff": tokens held server-side by the /api/bff routes
+type ClientMode = "browser" | "bff";
+
+// How the browser flow reaches the provider's login page
+type LoginMode = "redirect" | "popup";
+
+// Calls a BFF route and surfaces its { error } body on failure
+async function bffRequest(path: string, init?: RequestInit) {
+  const response = await fetch(path, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(
+      data.error_description || data.error || `Request to ${path} failed`
+    );
+  }
+  return data;
 }
 
-async function sha256(plain: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(plain);
-  const hash = await crypto.subtle.digest("SHA-256", data);
-  return btoa(String.fromCharCode(...new Uint8Array(hash)))
-    .replace(/\+/g, "-")
-    .replace(/\//g, "_")
-    .replace(/=+$/, "");
+// /api/jar?preview=true: the same authorization request, plain and as JAR
+interface AuthRequestPreview {
+  plainUrl: string;
+  url: string;
+  requestObject?: {
+    encrypted: boolean;
+    header: Record<string, unknown>;
+    payload?: Record<string, unknown>;
+  };
 }
 
+// /api/jar only previews signed requests outside production
+const AUTH_REQUEST_PREVIEW = process.env.NODE_ENV !== "production";
+
+// /api/introspect and /api/revoke take any token, so they are only served
+// outside production. Without them the browser calls the provider itself as
+// the public client, and a revocation can't be checked.
+const SERVER_TOKEN_ROUTES = process.env.NODE_ENV !== "production";
+
+// aud of a JWT access token; opaque tokens only the provider can read
+function describeAudience(accessToken: string) {
+  try {
+    const { aud } = decodeJwt(accessToken).payload;
+    return Array.isArray(aud) ? aud.join(", ") : String(aud ?? "none");
+  } catch {
+    return "opaque token";
+  }
+}
+
+const REVOCATION_CHECK_ICONS: Record<
+  RevocationReport["checks"][number]["status"],
+  string
+> = {
+  passed: "✓",
+  failed: "✗",
+  skipped: "–",
+  info: "ℹ",
+};
+
+// Session management indicator shown next to the Authenticated badge
+const SESSION_STATUS_LABELS: Record<
+  SessionStatus,
+  { label: string; dot: string } | null
+> = {
+  inactive: null,
+  unsupported: { label: "No session monitoring", dot: "bg-gray-400" },
+  checking: { label: "Checking session...", dot: "bg-yellow-400" },
+  unchanged: { label: "Provider session active", dot: "bg-green-500" },
+  reauthenticating: {
+    label: "Session changed, re-checking...",
+    dot: "bg-yellow-500",
+  },
+  error: { label: "Session check failed", dot: "bg-red-500" },
+};
+
 export default function Home() {
+  const [mode, setMode] = useState<ClientMode>("browser");
+  const [loginMode, setLoginMode] = useState<LoginMode>("redirect");
+  // null follows the provider's usePar / useJar setting
+  const [parOverride, setParOverride] = useState<boolean | null>(null);
+  const [jarOverride, setJarOverride] = useState<boolean | null>(null);
+  const [authRequestPreview, setAuthRequestPreview] =
+    useState<AuthRequestPreview | null>(null);
+  const [providers, setProviders] = useState<PublicProviderConfig[]>([]);
+  const [providerId, setProviderId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [tokens, setTokens] = useState<any>(null);
   const [userInfo, setUserInfo] = useState<any>(null);
+  const [protectedApiResult, setProtectedApiResult] = useState<{
+    status: number;
+    wwwAuthenticate: string | null;
+    body: unknown;
+  } | null>(null);
+  const [apiResource, setApiResource] = useState("");
+  const [apiScope, setApiScope] = useState("");
   const [discoveryInfo, setDiscoveryInfo] = useState<any>(null);
-  const [introspectionResult, setIntrospectionResult] = useState<any>(null);
+  const [introspectionResult, setIntrospectionResult] =
+    useState<IntrospectionResult | null>(null);
+  const [introspectionTokenType, setIntrospectionTokenType] =
+    useState<TokenTypeHint>("access_token");
+  const [revokeTokenType, setRevokeTokenType] =
+    useState<TokenTypeHint>("refresh_token");
+  const [revocationReport, setRevocationReport] =
+    useState<RevocationReport | null>(null);
+  const [serviceScope, setServiceScope] = useState("");
+  const [serviceResource, setServiceResource] = useState("");
+  const [serviceToken, setServiceToken] = useState<ServiceTokenSummary | null>(
+    null
+  );
   const [error, setError] = useState<string | null>(null);
+  const [silentAuthStatus, setSilentAuthStatus] = useState<string | null>(null);
 
-  // Load tokens from sessionStorage on mount
+  // Restore the selected mode and surface errors redirected from the BFF
   useEffect(() => {
-    const storedTokens = sessionStorage.getItem("tokens");
-    if (storedTokens) {
-      try {
-        setTokens(JSON.parse(storedTokens));
-      } catch (err) {
-        console.error("Failed to parse stored tokens:", err);
-      }
+    if (localStorage.getItem("client_mode") === "bff") {
+      setMode("bff");
+    }
+    if (localStorage.getItem("login_mode") === "popup") {
+      setLoginMode("popup");
+    }
+    const storedPar = localStorage.getItem("use_par");
+    if (storedPar) {
+      setParOverride(storedPar === "true");
+    }
+    const storedJar = localStorage.getItem("use_jar");
+    if (storedJar) {
+      setJarOverride(storedJar === "true");
+    }
+
+    const url = new URL(window.location.href);
+    const errorParam = url.searchParams.get("error");
+    if (errorParam) {
+      setError(errorParam);
+      url.searchParams.delete("error");
+      window.history.replaceState(null, "", url.toString());
     }
+
+    // Load the provider registry and restore the last selected provider
+    bffRequest("/api/providers")
+      .then(({ providers, defaultProviderId }) => {
+        const storedId = localStorage.getItem("provider_id");
+        setProviders(providers);
+        setProviderId(
+          providers.some((p: PublicProviderConfig) => p.id === storedId)
+            ? storedId
+            : defaultProviderId
+        );
+      })
+      .catch((err) => setError(err.message));
   }, []);
 
+  const provider = providers.find((p) => p.id === providerId);
+  const usePar = parOverride ?? provider?.usePar ?? false;
+  const useJar = jarOverride ?? provider?.useJar ?? false;
+
+  const requireProvider = () => {
+    if (!provider) {
+      throw new Error("No OIDC provider selected.");
+    }
+    return provider;
+  };
+
+  // Resolves an endpoint from discovery, through the provider's same-origin
+  // proxy when it has one
+  const endpoint = (name: EndpointName) => {
+    const { proxyPath, issuer } = requireProvider();
+    return resolveEndpoint(issuer, name, { proxyPath });
+  };
+
+  // Refreshes browser-held tokens ahead of expiry and across tabs
+  const tokenManager = useTokenManager({
+    enabled: mode === "browser",
+    tokens,
+    provider,
+    onTokens: (nextTokens: StoredTokens) => setTokens(nextTokens),
+    onReloginRequired: (message) => {
+      setTokens(null);
+      setUserInfo(null);
+      setProtectedApiResult(null);
+      setIntrospectionResult(null);
+      setError(message);
+    },
+  });
+
+  // Thumbprint of this browser's DPoP key, to check the tokens' cnf.jkt
+  const [dpopKeyInfo, setDpopKeyInfo] = useState<{
+    providerId: string;
+    jkt: string;
+  } | null>(null);
+  useEffect(() => {
+    if (mode !== "browser" || !provider?.useDpop || !tokens) return;
+    loadDpopKey(provider.id)
+      .then(({ jkt }) => setDpopKeyInfo({ providerId: provider.id, jkt }))
+      .catch((err) => console.error("Failed to load the DPoP key:", err));
+  }, [mode, provider, tokens]);
+  const dpopJkt =
+    provider?.useDpop && dpopKeyInfo?.providerId === provider.id
+      ? dpopKeyInfo.jkt
+      : undefined;
+
+  // Watches the provider session through its check_session_iframe
+  const sessionStatus = useSessionMonitor({
+    enabled: mode === "browser",
+    provider,
+    tokens,
+    onTokens: (nextTokens: StoredTokens) => setTokens(nextTokens),
+    onSessionEnded: (message) => {
+      clearTokens();
+      setTokens(null);
+      setUserInfo(null);
+      setProtectedApiResult(null);
+      setIntrospectionResult(null);
+      setError(message);
+    },
+  });
+
+  // Load tokens from sessionStorage, or the session summary from the BFF
+  useEffect(() => {
+    if (mode === "bff") {
+      bffRequest("/api/bff/session")
+        .then((summary) => setTokens(summary.authenticated ? summary : null))
+        .catch((err) => console.error("Failed to load BFF session:", err));
+      return;
+    }
+
+    const storedTokens = loadTokens();
+    if (storedTokens) {
+      setTokens(storedTokens);
+    }
+  }, [mode]);
+
+  // On page load, look for an existing provider session with a silent
+  // prompt=none request, once per provider
+  const silentChecked = useRef<string | null>(null);
+  useEffect(() => {
+    if (mode !== "browser" || !provider || loadTokens()) return;
+    if (silentChecked.current === provider.id) return;
+    // Public clients only, like the interactive browser flow
+    if (provider.tokenEndpointAuthMethod !== "none") return;
+    silentChecked.current = provider.id;
+
+    silentAuthorize(provider)
+      .then((tokenData) => {
+        setTokens(saveTokens(tokenData));
+        setSilentAuthStatus(`Signed in silently with ${provider.name}.`);
+      })
+      .catch((err) => {
+        setSilentAuthStatus(
+          describeInteractionRequired(err) ??
+            `Silent sign-in failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+      });
+  }, [mode, provider]);
+
+  const changeProvider = (nextProviderId: string) => {
+    localStorage.setItem("provider_id", nextProviderId);
+    setProviderId(nextProviderId);
+    setDiscoveryInfo(null);
+    setAuthRequestPreview(null);
+    setError(null);
+  };
+
+  const changeMode = (nextMode: ClientMode) => {
+    localStorage.setItem("client_mode", nextMode);
+    setMode(nextMode);
+    setTokens(null);
+    setUserInfo(null);
+    setProtectedApiResult(null);
+    setIntrospectionResult(null);
+    setRevocationReport(null);
+    setError(null);
+  };
+
+  const changeLoginMode = (nextLoginMode: LoginMode) => {
+    localStorage.setItem("login_mode", nextLoginMode);
+    setLoginMode(nextLoginMode);
+  };
+
+  const changePar = (nextUsePar: boolean) => {
+    localStorage.setItem("use_par", String(nextUsePar));
+    setParOverride(nextUsePar);
+  };
+
+  const changeJar = (nextUseJar: boolean) => {
+    localStorage.setItem("use_jar", String(nextUseJar));
+    setJarOverride(nextUseJar);
+  };
+
   // 1. Start Authorization Flow
   const startAuthFlow = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // Generate PKCE values
-      const codeVerifier = generateRandomString(128);
-      const codeChallenge = await sha256(codeVerifier);
+      // The BFF generates PKCE, state and nonce server-side
+      if (!provider) {
+        throw new Error("No OIDC provider selected.");
+      }
 
-      // Store code verifier for later use
-      sessionStorage.setItem("code_verifier", codeVerifier);
+      if (mode === "bff") {
+        window.location.href = `/api/bff/login?${new URLSearchParams({
+          provider: provider.id,
+          par: String(usePar),
+          jar: String(useJar),
+        })}`;
+        return;
+      }
 
-      // Redirect to authorization endpoint
-      const params = new URLSearchParams({
-        client_id: "partner-dashboard-local-2",
-        redirect_uri: "http://localhost:3000/auth/callback",
-        scope: "openid profile email offline_access",
-        response_type: "code",
-        code_challenge: codeChallenge,
-        code_challenge_method: "S256",
-        state: generateRandomString(16),
-      });
+      // Browsers cannot keep a client secret
+      if (provider.tokenEndpointAuthMethod !== "none") {
+        throw new Error(
+          `${provider.name} is a confidential client (${provider.tokenEndpointAuthMethod}). Use BFF mode to test it.`
+        );
+      }
+
+      // The popup hands the response back; this page does the exchange and
+      // keeps its state
+      if (loginMode === "popup") {
+        setTokens(
+          saveTokens(
+            await popupAuthorize(provider, { par: usePar, jar: useJar })
+          )
+        );
+        setLoading(false);
+        return;
+      }
+
+      // PKCE verifier, state and nonce are kept for the callback page
+      const { request, url } = await createAuthRequest(
+        provider,
+        {},
+        { par: usePar, jar: useJar }
+      );
+      storeAuthRequest(request);
 
-      window.location.href = `/oidc/auth?${params.toString()}`;
+      // Redirect to authorization endpoint
+      window.location.href = url;
     } catch (err: any) {
       setError(err.message);
       setLoading(false);
@@ -82,14 +386,28 @@ export default function Home() {
     setError(null);
 
     try {
-      const accessToken = sessionStorage.getItem("access_token");
-      if (!accessToken) {
+      if (mode === "bff") {
+        setUserInfo(await bffRequest("/api/bff/userinfo"));
+        return;
+      }
+
+      const stored = loadTokens();
+      if (!stored?.access_token) {
         throw new Error("No access token found. Please exchange code first.");
       }
 
-      const response = await fetch("/oidc/me", {
-        headers: { Authorization: `Bearer ${accessToken}` },
-      });
+      const currentProvider = requireProvider();
+      const response = await fetchWithAccessToken(
+        currentProvider,
+        stored,
+        await endpoint("userinfo_endpoint"),
+        {
+          htu: await resolveEndpoint(
+            currentProvider.issuer,
+            "userinfo_endpoint"
+          ),
+        }
+      );
 
       if (!response.ok) {
         throw new Error("Failed to get user info");
@@ -104,39 +422,48 @@ export default function Home() {
     }
   };
 
-  // 3. Refresh Token
-  const refreshAccessToken = async () => {
+  // Calls this app's own protected API with the access token, showing the
+  // resource server's challenge when it rejects the token
+  const callProtectedApi = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const refreshToken = sessionStorage.getItem("refresh_token");
-      if (!refreshToken) {
-        throw new Error("No refresh token found.");
+      const stored = loadTokens();
+      if (!stored?.access_token) {
+        throw new Error("No access token found. Please exchange code first.");
       }
 
-      const params = new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: refreshToken,
-        client_id: "partner-dashboard-local-2",
+      const response = await fetchWithAccessToken(
+        requireProvider(),
+        stored,
+        "/api/me"
+      );
+      setProtectedApiResult({
+        status: response.status,
+        wwwAuthenticate: response.headers.get("WWW-Authenticate"),
+        body: await response.json().catch(() => null),
       });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const response = await fetch("/oidc/token", {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params.toString(),
-      });
+  // 3. Refresh Token
+  const refreshAccessToken = async () => {
+    setLoading(true);
+    setError(null);
 
-      if (!response.ok) {
-        throw new Error("Token refresh failed");
+    try {
+      if (mode === "bff") {
+        setTokens(await bffRequest("/api/bff/refresh", { method: "POST" }));
+        return;
       }
 
-      const tokenData = await response.json();
-      setTokens(tokenData);
-      sessionStorage.setItem("access_token", tokenData.access_token);
-      if (tokenData.refresh_token) {
-        sessionStorage.setItem("refresh_token", tokenData.refresh_token);
-      }
+      // Shares the request with a scheduled or other-tab refresh
+      await tokenManager.refresh();
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -144,19 +471,77 @@ export default function Home() {
     }
   };
 
+  // Access token for another API (RFC 8707), downscoped to apiScope if set
+  const getResourceToken = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await tokenManager.getResourceToken(
+        apiResource.trim(),
+        apiScope.trim() || undefined
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Machine-to-machine token from the client credentials grant, obtained and
+  // cached on the server the way route handlers get theirs
+  const getServiceToken = async (force: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setServiceToken(
+        await bffRequest("/api/client-credentials", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            provider: requireProvider().id,
+            scope: serviceScope.trim(),
+            resource: serviceResource.trim(),
+            force,
+          }),
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Builds the same authorization request plainly and as a signed request
+  // object, without starting a login
+  const compareAuthRequests = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { url } = await createAuthRequest(
+        requireProvider(),
+        {},
+        { par: false, jar: true }
+      );
+      setAuthRequestPreview(await bffRequest(`${url}&preview=true`));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // 4. Get Discovery Info
   const getDiscoveryInfo = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch("/oidc/.well-known/openid-configuration");
-      if (!response.ok) {
-        throw new Error("Failed to get discovery info");
-      }
-
-      const data = await response.json();
-      setDiscoveryInfo(data);
+      const { issuer, proxyPath } = requireProvider();
+      setDiscoveryInfo(await getDiscoveryDocument(issuer, { proxyPath }));
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -170,130 +555,174 @@ export default function Home() {
     setError(null);
 
     try {
-      const accessToken = sessionStorage.getItem("access_token");
-      if (!accessToken) {
-        throw new Error("No access token found.");
+      if (mode === "bff") {
+        setIntrospectionResult(
+          await bffRequest("/api/bff/introspect", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ token_type_hint: introspectionTokenType }),
+          })
+        );
+        return;
       }
 
-      const params = new URLSearchParams({
-        token: accessToken,
-        client_id: "partner-dashboard-local-2",
-      });
-
-      const response = await fetch("/oidc/introspection", {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params.toString(),
-      });
-
-      if (!response.ok) {
-        throw new Error("Token introspection failed");
+      const stored = loadTokens();
+      const token =
+        introspectionTokenType === "refresh_token"
+          ? stored?.refresh_token
+          : stored?.access_token;
+      if (!token) {
+        throw new Error(
+          `No ${introspectionTokenType === "refresh_token" ? "refresh" : "access"} token found.`
+        );
       }
 
-      const data = await response.json();
-      setIntrospectionResult(data);
-    } catch (err: any) {
-      setError(err.message);
+      // The server introspects with the client credentials; without
+      // /api/introspect the browser asks as the public client
+      setIntrospectionResult(
+        SERVER_TOKEN_ROUTES
+          ? await bffRequest("/api/introspect", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                provider: requireProvider().id,
+                token,
+                token_type_hint: introspectionTokenType,
+              }),
+            })
+          : await introspectAsPublicClient(
+              requireProvider(),
+              token,
+              introspectionTokenType
+            )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
   };
 
   // 6. Revoke Token
-  // const revokeToken = async () => {
-  //   setLoading(true);
-  //   setError(null);
-
-  //   try {
-  //     const accessToken = sessionStorage.getItem("access_token");
-  //     if (!accessToken) {
-  //       throw new Error("No access token found.");
-  //     }
-
-  //     const params = new URLSearchParams({
-  //       token: accessToken,
-  //       client_id: "partner-dashboard-local-2",
-  //     });
-
-  //     const response = await fetch("/oidc/revocation", {
-  //       method: "POST",
-  //       headers: { "Content-Type": "application/x-www-form-urlencoded" },
-  //       body: params.toString(),
-  //     });
-
-  //     if (!response.ok) {
-  //       throw new Error("Token revocation failed");
-  //     }
-
-  //     alert("Token revoked successfully");
-  //     sessionStorage.clear();
-  //     setTokens(null);
-  //     setUserInfo(null);
-  //   } catch (err: any) {
-  //     setError(err.message);
-  //   } finally {
-  //     setLoading(false);
-  //   }
-  // };
   const revokeToken = async () => {
     setLoading(true);
     setError(null);
+    setRevocationReport(null);
 
     try {
-      const refreshToken = sessionStorage.getItem("refresh_token");
-
-      if (!refreshToken) {
-        throw new Error("No refresh token found.");
-      }
-
-      const params = new URLSearchParams({
-        token: refreshToken,
-        token_type_hint: "refresh_token",
-        client_id: "partner-dashboard-local-2",
-      });
-
-      const response = await fetch("/oidc/token/revocation", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: params.toString(),
-      });
-
-      // RFC 7009: success == 200
-      if (!response.ok) {
-        throw new Error("Token revocation failed");
+      let report: RevocationReport;
+      if (mode === "bff") {
+        report = await bffRequest("/api/bff/revoke", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token_type_hint: revokeTokenType }),
+        });
+      } else {
+        const stored = loadTokens();
+        const token =
+          revokeTokenType === "refresh_token"
+            ? stored?.refresh_token
+            : stored?.access_token;
+        if (!token) {
+          throw new Error(
+            `No ${revokeTokenType === "refresh_token" ? "refresh" : "access"} token found.`
+          );
+        }
+
+        const currentProvider = requireProvider();
+        if (SERVER_TOKEN_ROUTES) {
+          // Revoked and checked by the server, which holds the client
+          // credentials but not this browser's DPoP key
+          report = await bffRequest("/api/revoke", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              provider: currentProvider.id,
+              token_type_hint: revokeTokenType,
+              access_token: stored?.access_token,
+              refresh_token: stored?.refresh_token,
+              dpop_jkt: currentProvider.useDpop
+                ? (await loadDpopKey(currentProvider.id)).jkt
+                : undefined,
+            }),
+          });
+        } else {
+          await revokeAsPublicClient(currentProvider, token, revokeTokenType);
+          report = {
+            revoked: revokeTokenType,
+            checks: [
+              {
+                name: "Revocation checks",
+                status: "skipped",
+                detail:
+                  "The provider accepted the revocation. The checks need the server's /api/revoke, which is only served outside production.",
+              },
+            ],
+            confirmed: false,
+          };
+        }
       }
-
-      // Local cleanup
-      sessionStorage.clear();
-      setTokens(null);
-      setUserInfo(null);
+      setRevocationReport(report);
       setIntrospectionResult(null);
 
-      alert("Refresh token revoked successfully");
-    } catch (err: any) {
-      setError(err.message);
+      // Without the refresh token the session is over, in every tab sharing
+      // it. A revoked access token is kept, so the next call shows it failing
+      // until a refresh.
+      if (revokeTokenType === "refresh_token") {
+        const refreshToken = loadTokens()?.refresh_token;
+        clearTokens();
+        setTokens(null);
+        setUserInfo(null);
+        setProtectedApiResult(null);
+        if (mode === "browser") {
+          if (refreshToken) broadcastRevokedRefreshToken(refreshToken);
+          if (provider?.useDpop) {
+            await clearDpopKey(provider.id).catch(() => undefined);
+          }
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
   };
 
   // 7. Logout
-  const logout = () => {
+  const logout = async () => {
     const idToken = tokens?.id_token;
 
     // 🔥 Clear client-side auth state immediately
     sessionStorage.clear();
     setTokens(null);
     setUserInfo(null);
+    setProtectedApiResult(null);
     setIntrospectionResult(null);
+    setRevocationReport(null);
+    if (provider?.useDpop) {
+      await clearDpopKey(provider.id).catch(() => undefined);
+    }
 
-    const logoutUrl = new URL("http://localhost:4001/oidc/session/end");
+    // The BFF clears its session and redirects to the provider itself
+    if (mode === "bff") {
+      window.location.href = "/api/bff/logout";
+      return;
+    }
+
+    let logoutUrl;
+    try {
+      logoutUrl = new URL(
+        await endpoint("end_session_endpoint"),
+        window.location.origin
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
 
     logoutUrl.searchParams.set(
       "post_logout_redirect_uri",
-      "http://localhost:3000"
+      provider?.postLogoutRedirectUri ?? window.location.origin
     );
 
     if (idToken) {
@@ -317,11 +746,99 @@ export default function Home() {
             <p className="text-gray-600">
               Test all OIDC authentication endpoints
             </p>
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              <select
+                value={providerId ?? ""}
+                onChange={(e) => changeProvider(e.target.value)}
+                disabled={Boolean(tokens) || providers.length === 0}
+                title={tokens ? "Log out to switch providers" : "OIDC provider"}
+                className="rounded-full border bg-white px-3 py-1.5 text-sm disabled:opacity-60"
+              >
+                {providers.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.tokenEndpointAuthMethod !== "none" ? " (BFF only)" : ""}
+                  </option>
+                ))}
+              </select>
+              <div className="inline-flex rounded-full border bg-white p-1 text-sm">
+                <button
+                  onClick={() => changeMode("browser")}
+                  className={`px-3 py-1 rounded-full ${
+                    mode === "browser"
+                      ? "bg-gray-800 text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  Browser (sessionStorage)
+                </button>
+                <button
+                  onClick={() => changeMode("bff")}
+                  className={`px-3 py-1 rounded-full ${
+                    mode === "bff"
+                      ? "bg-gray-800 text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  BFF (server session)
+                </button>
+              </div>
+              {mode === "browser" && (
+                <div className="inline-flex rounded-full border bg-white p-1 text-sm">
+                  {(["redirect", "popup"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => changeLoginMode(option)}
+                      className={`px-3 py-1 rounded-full ${
+                        loginMode === option
+                          ? "bg-gray-800 text-white"
+                          : "text-gray-600 hover:bg-gray-100"
+                      }`}
+                    >
+                      {option === "redirect" ? "Redirect login" : "Popup login"}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <label
+                className="inline-flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-sm text-gray-600"
+                title="Send the authorization parameters through /api/par (RFC 9126)"
+              >
+                <input
+                  type="checkbox"
+                  checked={usePar}
+                  onChange={(e) => changePar(e.target.checked)}
+                />
+                Use PAR
+              </label>
+              <label
+                className="inline-flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-sm text-gray-600"
+                title="Send the authorization parameters as a signed request object (RFC 9101)"
+              >
+                <input
+                  type="checkbox"
+                  checked={useJar}
+                  onChange={(e) => changeJar(e.target.checked)}
+                />
+                Use JAR
+              </label>
+            </div>
           </div>
           <div className="">
             {tokens ? (
               <div className="flex items-center gap-3 bg-green-100 text-green-800 px-4 py-2 rounded-full shadow">
                 <span className="text-base font-medium">Authenticated</span>
+                {SESSION_STATUS_LABELS[sessionStatus] && (
+                  <span
+                    className="flex items-center gap-1 text-xs text-green-900"
+                    title="Provider session (check_session_iframe)"
+                  >
+                    <span
+                      className={`w-2 h-2 rounded-full ${SESSION_STATUS_LABELS[sessionStatus].dot}`}
+                    />
+                    {SESSION_STATUS_LABELS[sessionStatus].label}
+                  </span>
+                )}
 
                 <button
                   onClick={logout}
@@ -346,6 +863,12 @@ export default function Home() {
           </div>
         )}
 
+        {mode === "browser" && silentAuthStatus && (
+          <div className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+            <strong>Silent sign-in (prompt=none):</strong> {silentAuthStatus}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
           {/* Authorization Flow */}
           <div className="bg-white p-6 rounded-lg shadow-sm border">
@@ -357,6 +880,15 @@ export default function Home() {
             >
               Start Auth Flow
             </button>
+            {AUTH_REQUEST_PREVIEW && (
+              <button
+                onClick={compareAuthRequests}
+                disabled={loading}
+                className="mt-2 w-full border border-blue-600 text-blue-700 px-4 py-2 rounded hover:bg-blue-50 disabled:opacity-50"
+              >
+                Compare Plain vs. JAR
+              </button>
+            )}
           </div>
 
           {/* Token Exchange - Now Automatic */}
@@ -369,7 +901,9 @@ export default function Home() {
             </p>
             {tokens && (
               <div className="text-xs text-green-600 font-medium">
-                Access token stored
+                {mode === "bff"
+                  ? "Tokens held in server session"
+                  : "Access token stored"}
               </div>
             )}
           </div>
@@ -384,6 +918,15 @@ export default function Home() {
             >
               Get User Info
             </button>
+            {mode === "browser" && (
+              <button
+                onClick={callProtectedApi}
+                disabled={loading || !tokens}
+                className="mt-2 w-full border border-purple-600 text-purple-700 px-4 py-2 rounded hover:bg-purple-50 disabled:opacity-50"
+              >
+                Call Protected API
+              </button>
+            )}
           </div>
 
           {/* Refresh Token */}
@@ -396,6 +939,40 @@ export default function Home() {
             >
               Refresh Token
             </button>
+            {mode === "browser" && tokenManager.expiresAt && (
+              <p className="mt-2 text-xs text-gray-500">
+                {tokens?.refresh_token
+                  ? "Auto-refreshes shortly before "
+                  : "No refresh token; expires at "}
+                {new Date(tokenManager.expiresAt).toLocaleTimeString()}
+              </p>
+            )}
+            {mode === "browser" && (
+              <div className="mt-3 space-y-2">
+                <input
+                  value={apiResource}
+                  onChange={(e) => setApiResource(e.target.value)}
+                  list="api-resources"
+                  placeholder="API resource, e.g. https://api.example.com"
+                  className="w-full rounded border px-3 py-1.5 text-sm"
+                />
+                <input
+                  value={apiScope}
+                  onChange={(e) => setApiScope(e.target.value)}
+                  placeholder="Scope (optional, to downscope)"
+                  className="w-full rounded border px-3 py-1.5 text-sm"
+                />
+                <button
+                  onClick={getResourceToken}
+                  disabled={
+                    loading || !tokens?.refresh_token || !apiResource.trim()
+                  }
+                  className="w-full border border-indigo-600 text-indigo-700 px-4 py-2 rounded hover:bg-indigo-50 disabled:opacity-50"
+                >
+                  Get Token for API
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Discovery */}
@@ -420,6 +997,16 @@ export default function Home() {
             >
               Introspect Token
             </button>
+            <select
+              value={introspectionTokenType}
+              onChange={(e) =>
+                setIntrospectionTokenType(e.target.value as TokenTypeHint)
+              }
+              className="mt-2 w-full rounded border bg-white px-3 py-1.5 text-sm"
+            >
+              <option value="access_token">Access token</option>
+              <option value="refresh_token">Refresh token</option>
+            </select>
           </div>
 
           {/* Revocation */}
@@ -432,6 +1019,16 @@ export default function Home() {
             >
               Revoke Token
             </button>
+            <select
+              value={revokeTokenType}
+              onChange={(e) =>
+                setRevokeTokenType(e.target.value as TokenTypeHint)
+              }
+              className="mt-2 w-full rounded border bg-white px-3 py-1.5 text-sm"
+            >
+              <option value="refresh_token">Refresh token</option>
+              <option value="access_token">Access token</option>
+            </select>
           </div>
 
           {/* Logout */}
@@ -445,20 +1042,118 @@ export default function Home() {
               End Session
             </button>
           </div>
+
+          {/* Client Credentials */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border">
+            <h2 className="text-lg font-semibold mb-3">
+              9. Client Credentials
+            </h2>
+            <button
+              onClick={() => getServiceToken(false)}
+              disabled={loading}
+              className="w-full bg-slate-700 text-white px-4 py-2 rounded hover:bg-slate-800 disabled:opacity-50"
+            >
+              Get Service Token
+            </button>
+            <div className="mt-3 space-y-2">
+              <input
+                value={serviceScope}
+                onChange={(e) => setServiceScope(e.target.value)}
+                placeholder="Scope (optional)"
+                className="w-full rounded border px-3 py-1.5 text-sm"
+              />
+              <input
+                value={serviceResource}
+                onChange={(e) => setServiceResource(e.target.value)}
+                list="api-resources"
+                placeholder="API resource (optional)"
+                className="w-full rounded border px-3 py-1.5 text-sm"
+              />
+              <button
+                onClick={() => getServiceToken(true)}
+                disabled={loading}
+                className="w-full border border-slate-700 text-slate-700 px-4 py-2 rounded hover:bg-slate-50 disabled:opacity-50"
+              >
+                Request New Token
+              </button>
+            </div>
+          </div>
         </div>
 
+        <datalist id="api-resources">
+          {provider?.resources.map((resource) => (
+            <option key={resource} value={resource} />
+          ))}
+        </datalist>
+
         {/* Results Display */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Tokens */}
           {tokens && (
             <div className="bg-white p-6 rounded-lg shadow-sm border">
-              <h3 className="text-lg font-semibold mb-3">Tokens</h3>
-              <pre className="bg-gray-50 p-4 rounded text-xs overflow-auto max-h-96">
-                {JSON.stringify(tokens, null, 2)}
-              </pre>
+              <h3 className="text-lg font-semibold mb-3">
+                {mode === "bff"
+                  ? "Session (tokens stay on the server)"
+                  : "Tokens"}
+              </h3>
+              {mode === "bff" ? (
+                <pre className="bg-gray-50 p-4 rounded text-xs overflow-auto max-h-96">
+                  {JSON.stringify(tokens, null, 2)}
+                </pre>
+              ) : (
+                <details className="mb-4">
+                  <summary className="text-sm text-gray-600 cursor-pointer">
+                    Raw token response
+                  </summary>
+                  <pre className="mt-2 bg-gray-50 p-4 rounded text-xs overflow-auto max-h-96">
+                    {JSON.stringify(tokens, null, 2)}
+                  </pre>
+                </details>
+              )}
+              <TokenInspector
+                accessToken={mode === "bff" ? undefined : tokens.access_token}
+                idToken={mode === "bff" ? undefined : tokens.id_token}
+                scopes={(tokens.scope ?? provider?.scopes.join(" ") ?? "")
+                  .split(" ")
+                  .filter(Boolean)}
+                provider={provider}
+                dpopJkt={mode === "bff" ? undefined : dpopJkt}
+              />
             </div>
           )}
 
+          {/* Access tokens for other APIs */}
+          {mode === "browser" &&
+            tokens?.resource_tokens &&
+            Object.keys(tokens.resource_tokens).length > 0 && (
+              <div className="bg-white p-6 rounded-lg shadow-sm border">
+                <h3 className="text-lg font-semibold mb-3">
+                  API Access Tokens
+                </h3>
+                <ul className="space-y-3 text-sm">
+                  {Object.entries(
+                    tokens.resource_tokens as Record<
+                      string,
+                      StoredResourceToken
+                    >
+                  ).map(([resource, token]) => (
+                    <li key={resource}>
+                      <p className="font-medium break-all">{resource}</p>
+                      <p className="text-xs text-gray-600">
+                        aud: {describeAudience(token.access_token)}
+                        {" · "}scope: {token.scope ?? "as granted"}
+                        {token.expires_at &&
+                          ` · expires ${new Date(token.expires_at).toLocaleTimeString()}`}
+                      </p>
+                      <pre className="mt-1 bg-gray-50 p-2 rounded text-xs overflow-auto whitespace-pre-wrap break-all">
+                        {token.access_token}
+                      </pre>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
           {/* User Info */}
           {userInfo && (
             <div className="bg-white p-6 rounded-lg shadow-sm border">
@@ -469,6 +1164,49 @@ export default function Home() {
             </div>
           )}
 
+          {/* Protected API */}
+          {protectedApiResult && (
+            <div className="bg-white p-6 rounded-lg shadow-sm border">
+              <h3 className="text-lg font-semibold mb-3">
+                Protected API (/api/me): HTTP {protectedApiResult.status}
+              </h3>
+              {protectedApiResult.wwwAuthenticate && (
+                <p className="mb-3 text-xs text-red-700 break-all">
+                  WWW-Authenticate: {protectedApiResult.wwwAuthenticate}
+                </p>
+              )}
+              <pre className="bg-gray-50 p-4 rounded text-xs overflow-auto max-h-96">
+                {JSON.stringify(protectedApiResult.body, null, 2)}
+              </pre>
+            </div>
+          )}
+
+          {/* Plain vs. JAR authorization request */}
+          {authRequestPreview && (
+            <div className="bg-white p-6 rounded-lg shadow-sm border">
+              <h3 className="text-lg font-semibold mb-3">
+                Authorization Request: Plain vs. JAR
+              </h3>
+              <p className="text-sm font-medium text-gray-700">Plain</p>
+              <pre className="mb-3 bg-gray-50 p-4 rounded text-xs overflow-auto whitespace-pre-wrap break-all">
+                {authRequestPreview.plainUrl}
+              </pre>
+              <p className="text-sm font-medium text-gray-700">
+                JAR
+                {authRequestPreview.requestObject?.encrypted && " (encrypted)"}
+              </p>
+              <pre className="mb-3 bg-gray-50 p-4 rounded text-xs overflow-auto whitespace-pre-wrap break-all">
+                {authRequestPreview.url}
+              </pre>
+              <p className="text-sm font-medium text-gray-700">
+                Request object
+              </p>
+              <pre className="bg-gray-50 p-4 rounded text-xs overflow-auto max-h-96">
+                {JSON.stringify(authRequestPreview.requestObject, null, 2)}
+              </pre>
+            </div>
+          )}
+
           {/* Discovery Info */}
           {discoveryInfo && (
             <div className="bg-white p-6 rounded-lg shadow-sm border">
@@ -485,11 +1223,89 @@ export default function Home() {
               <h3 className="text-lg font-semibold mb-3">
                 Introspection Result
               </h3>
+              <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                <span
+                  className={`px-2 py-0.5 rounded-full font-medium ${
+                    introspectionResult.active
+                      ? "bg-green-100 text-green-800"
+                      : "bg-red-100 text-red-800"
+                  }`}
+                >
+                  {introspectionResult.active ? "Active" : "Inactive"}
+                </span>
+                {introspectionResult.signed && (
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                    Signed response (RFC 9701)
+                  </span>
+                )}
+                {introspectionResult.cached && (
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                    Cached
+                  </span>
+                )}
+              </div>
+              <p className="mb-3 text-sm text-gray-700">
+                {introspectionResult.reason}
+              </p>
               <pre className="bg-gray-50 p-4 rounded text-xs overflow-auto max-h-96">
-                {JSON.stringify(introspectionResult, null, 2)}
+                {JSON.stringify(introspectionResult.claims, null, 2)}
               </pre>
             </div>
           )}
+
+          {/* Client Credentials Token */}
+          {serviceToken && (
+            <div className="bg-white p-6 rounded-lg shadow-sm border">
+              <h3 className="text-lg font-semibold mb-3">Service Token</h3>
+              <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                  {serviceToken.cached ? "Cached" : "New"}
+                </span>
+                <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                  {serviceToken.tokenType}
+                </span>
+              </div>
+              <p className="text-xs text-gray-600">
+                aud: {serviceToken.audience}
+                {" · "}scope: {serviceToken.scope ?? "as registered"}
+                {" · "}
+                {serviceToken.expiresAt
+                  ? `expires ${new Date(serviceToken.expiresAt).toLocaleTimeString()}`
+                  : "no expiry, not cached"}
+              </p>
+            </div>
+          )}
+
+          {/* Revocation Report */}
+          {revocationReport && (
+            <div className="bg-white p-6 rounded-lg shadow-sm border">
+              <h3 className="text-lg font-semibold mb-3">
+                Revocation:{" "}
+                {revocationReport.revoked === "refresh_token"
+                  ? "Refresh Token"
+                  : "Access Token"}
+              </h3>
+              <p
+                className={`mb-3 text-sm font-medium ${
+                  revocationReport.confirmed ? "text-green-700" : "text-red-700"
+                }`}
+              >
+                {revocationReport.confirmed
+                  ? "Revocation confirmed"
+                  : "Revocation could not be confirmed"}
+              </p>
+              <ul className="space-y-2 text-sm">
+                {revocationReport.checks.map((check) => (
+                  <li key={check.name}>
+                    <span className="font-medium">
+                      {REVOCATION_CHECK_ICONS[check.status]} {check.name}
+                    </span>
+                    <p className="text-xs text-gray-600">{check.detail}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,337 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { resolveEndpoint } from "@/lib/oidc/discovery";
+import { decodeJwt, JwtHeader, JwtPayload } from "@/lib/oidc/jwt";
+import { verifyJwt } from "@/lib/oidc/jwks";
+import {
+  checkClaimsAgainstScopes,
+  describeClaim,
+  REQUIRED_ID_TOKEN_CLAIMS,
+} from "@/lib/oidc/scopes";
+import type { PublicProviderConfig } from "@/lib/oidc/providers";
+
+type TokenKind = "access_token" | "id_token" | "unknown";
+
+type SignatureStatus =
+  | { state: "pending" }
+  | { state: "valid"; kid?: string }
+  | { state: "invalid"; message: string };
+
+const TIME_CLAIMS = ["iat", "nbf", "exp", "auth_time"];
+
+// "in 4m 12s" / "3m 5s ago"
+function formatRelative(seconds: number, now: number) {
+  const diff = seconds - now;
+  const abs = Math.abs(diff);
+  const parts = [
+    [Math.floor(abs / 86400), "d"],
+    [Math.floor((abs % 86400) / 3600), "h"],
+    [Math.floor((abs % 3600) / 60), "m"],
+    [abs % 60, "s"],
+  ]
+    .filter(([value]) => value)
+    .slice(0, 2)
+    .map(([value, unit]) => `${value}${unit}`)
+    .join(" ");
+
+  return diff >= 0 ? `in ${parts || "0s"}` : `${parts} ago`;
+}
+
+function useNow() {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(
+      () => setNow(Math.floor(Date.now() / 1000)),
+      1000
+    );
+    return () => clearInterval(timer);
+  }, []);
+
+  return now;
+}
+
+function JwtDetails({
+  token,
+  kind,
+  scopes,
+  provider,
+  dpopJkt,
+}: {
+  token: string;
+  kind: TokenKind;
+  scopes: string[];
+  provider?: PublicProviderConfig;
+  dpopJkt?: string;
+}) {
+  const now = useNow();
+  const [signature, setSignature] = useState<SignatureStatus>({
+    state: "pending",
+  });
+
+  let decoded: { header: JwtHeader; payload: JwtPayload } | null = null;
+  let decodeError: string | null = null;
+  const segments = token.split(".").length;
+
+  if (segments === 5) {
+    decodeError = "Encrypted JWT (JWE): the payload cannot be inspected.";
+  } else if (segments !== 3) {
+    decodeError =
+      "Opaque token: it is not a JWT. Use introspection to inspect it.";
+  } else {
+    try {
+      decoded = decodeJwt(token);
+    } catch (err) {
+      decodeError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const isJwt = decoded !== null;
+
+  // Verify the signature against the provider's JWKS
+  useEffect(() => {
+    if (!isJwt || !provider) return;
+
+    let cancelled = false;
+    resolveEndpoint(provider.issuer, "jwks_uri", {
+      proxyPath: provider.proxyPath,
+    })
+      .then((jwksUri) => verifyJwt(token, jwksUri))
+      .then(({ header }) => {
+        if (!cancelled) setSignature({ state: "valid", kid: header.kid });
+      })
+      .catch((err) => {
+        if (!cancelled)
+          setSignature({ state: "invalid", message: err.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isJwt, token, provider]);
+
+  if (!decoded) {
+    return (
+      <div className="p-3 bg-gray-50 rounded text-sm text-gray-600">
+        {decodeError}
+      </div>
+    );
+  }
+
+  const { header, payload } = decoded;
+  // DPoP-bound tokens carry the key's thumbprint (RFC 9449)
+  const jkt = (payload.cnf as { jkt?: unknown } | undefined)?.jkt;
+  const claimCheck =
+    kind === "id_token" ? checkClaimsAgainstScopes(payload, scopes) : null;
+  const missingRequired =
+    kind === "id_token"
+      ? REQUIRED_ID_TOKEN_CLAIMS.filter((claim) => !(claim in payload))
+      : [];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap gap-2">
+        <span className="px-2 py-0.5 rounded bg-gray-100 font-mono text-xs">
+          {header.alg}
+          {header.kid && ` · kid ${header.kid}`}
+          {header.typ && ` · ${header.typ}`}
+        </span>
+        {!provider ? (
+          <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 text-xs">
+            Signature not checked (no provider selected)
+          </span>
+        ) : signature.state === "pending" ? (
+          <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 text-xs">
+            Verifying signature...
+          </span>
+        ) : signature.state === "valid" ? (
+          <span className="px-2 py-0.5 rounded bg-green-100 text-green-800 text-xs">
+            ✓ Signature valid (JWKS)
+          </span>
+        ) : (
+          <span
+            className="px-2 py-0.5 rounded bg-red-100 text-red-800 text-xs"
+            title={signature.message}
+          >
+            ✗ {signature.message}
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {TIME_CLAIMS.filter((claim) => typeof payload[claim] === "number").map(
+          (claim) => {
+            const value = payload[claim] as number;
+            const expired = claim === "exp" && value <= now;
+            return (
+              <li key={claim} className="flex justify-between gap-4">
+                <span className="font-mono text-gray-500">{claim}</span>
+                <span className={expired ? "text-red-600" : "text-gray-700"}>
+                  {new Date(value * 1000).toLocaleString()} (
+                  {claim === "exp" && expired ? "expired " : ""}
+                  {formatRelative(value, now)})
+                </span>
+              </li>
+            );
+          }
+        )}
+      </ul>
+
+      {(missingRequired.length > 0 ||
+        (claimCheck &&
+          (claimCheck.missing.length > 0 ||
+            claimCheck.unexpected.length > 0))) && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded space-y-1 text-yellow-800">
+          {missingRequired.length > 0 && (
+            <p>
+              <strong>Missing required claims:</strong>{" "}
+              {missingRequired.join(", ")}
+            </p>
+          )}
+          {claimCheck && claimCheck.missing.length > 0 && (
+            <p>
+              <strong>Not in token for granted scopes:</strong>{" "}
+              {claimCheck.missing
+                .map((claim) => `${claim} (${describeClaim(claim)})`)
+                .join(", ")}{" "}
+              <span className="text-yellow-700">
+                — may be available from UserInfo
+              </span>
+            </p>
+          )}
+          {claimCheck && claimCheck.unexpected.length > 0 && (
+            <p>
+              <strong>Unexpected for granted scopes:</strong>{" "}
+              {claimCheck.unexpected.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {typeof payload.cnf === "object" && payload.cnf !== null && (
+        <p className="text-gray-600">
+          <strong>Confirmation (cnf):</strong>{" "}
+          <span className="font-mono">{JSON.stringify(payload.cnf)}</span>
+        </p>
+      )}
+      {typeof jkt === "string" && (
+        <p
+          className={
+            !dpopJkt
+              ? "text-gray-600"
+              : jkt === dpopJkt
+                ? "text-green-700"
+                : "text-red-700"
+          }
+        >
+          <strong>DPoP binding:</strong>{" "}
+          {!dpopJkt
+            ? "bound to a DPoP key (cnf.jkt)"
+            : jkt === dpopJkt
+              ? "✓ bound to this client's DPoP key"
+              : "✗ bound to a different DPoP key than this client's"}
+        </p>
+      )}
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Header</p>
+        <pre className="bg-gray-50 p-3 rounded text-xs overflow-auto">
+          {JSON.stringify(header, null, 2)}
+        </pre>
+      </div>
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Payload</p>
+        <pre className="bg-gray-50 p-3 rounded text-xs overflow-auto max-h-72">
+          {JSON.stringify(payload, null, 2)}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+export default function TokenInspector({
+  accessToken,
+  idToken,
+  scopes,
+  provider,
+  dpopJkt,
+}: {
+  accessToken?: string;
+  idToken?: string;
+  scopes: string[];
+  provider?: PublicProviderConfig;
+  // Thumbprint of the client's DPoP key, to check cnf.jkt against
+  dpopJkt?: string;
+}) {
+  const tabs = [
+    accessToken && { id: "access_token", label: "Access Token" },
+    idToken && { id: "id_token", label: "ID Token" },
+    { id: "pasted", label: "Paste Token" },
+  ].filter(Boolean) as { id: string; label: string }[];
+
+  const [activeTab, setActiveTab] = useState(tabs[0].id);
+  const [pastedToken, setPastedToken] = useState("");
+
+  // Fall back to the first tab when the selected token goes away
+  const tab = tabs.some((t) => t.id === activeTab) ? activeTab : tabs[0].id;
+
+  const selected =
+    tab === "access_token"
+      ? accessToken
+      : tab === "id_token"
+        ? idToken
+        : pastedToken.trim();
+
+  let kind: TokenKind = tab === "pasted" ? "unknown" : (tab as TokenKind);
+  if (kind === "unknown" && selected) {
+    // Treat pasted tokens with a nonce or at_hash as ID tokens
+    try {
+      const { payload } = decodeJwt(selected);
+      if ("nonce" in payload || "at_hash" in payload) kind = "id_token";
+    } catch {
+      // Not a JWT: JwtDetails reports it
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 border-b">
+        {tabs.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => setActiveTab(t.id)}
+            className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${
+              tab === t.id
+                ? "border-blue-600 text-blue-700 font-medium"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "pasted" && (
+        <textarea
+          value={pastedToken}
+          onChange={(e) => setPastedToken(e.target.value)}
+          placeholder="Paste a JWT (header.payload.signature)"
+          rows={4}
+          className="w-full border border-gray-300 p-2 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+
+      {selected && (
+        <JwtDetails
+          key={selected}
+          token={selected}
+          kind={kind}
+          scopes={scopes}
+          provider={provider}
+          dpopJkt={dpopJkt}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { resolveEndpoint, UnsupportedFeatureError } from "@/lib/oidc/discovery";
+import { OAuthError } from "@/lib/oidc/errors";
+import { decodeJwt } from "@/lib/oidc/jwt";
+import type { PublicProviderConfig } from "@/lib/oidc/providers";
+import { silentAuthorize } from "@/lib/oidc/silent-auth";
+import { saveTokens, StoredTokens } from "@/lib/oidc/token-store";
+
+// OIDC Session Management 1.0, RP side: the provider's check_session_iframe
+// is loaded hidden and polled with "client_id session_state" messages. It
+// answers "changed" once the user's session at the provider changes.
+
+export type SessionStatus =
+  | "inactive"
+  | "unsupported"
+  | "checking"
+  | "unchanged"
+  | "reauthenticating"
+  | "error";
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+interface SessionMonitorOptions {
+  enabled: boolean;
+  provider?: PublicProviderConfig;
+  tokens: StoredTokens | null;
+  // Silent re-authentication after a change succeeded
+  onTokens: (tokens: StoredTokens) => void;
+  // The provider session ended, or now belongs to another user
+  onSessionEnded: (message: string) => void;
+  pollIntervalMs?: number;
+}
+
+function subjectOf(tokens: StoredTokens) {
+  try {
+    return tokens.id_token ? decodeJwt(tokens.id_token).payload.sub : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function useSessionMonitor({
+  enabled,
+  provider,
+  tokens,
+  onTokens,
+  onSessionEnded,
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+}: SessionMonitorOptions): SessionStatus {
+  const [status, setStatus] = useState<SessionStatus>("checking");
+
+  // Keep the latest values without restarting the monitor
+  const latestRef = useRef({ tokens, onTokens, onSessionEnded });
+  useEffect(() => {
+    latestRef.current = { tokens, onTokens, onSessionEnded };
+  });
+
+  const sessionState =
+    typeof tokens?.session_state === "string" ? tokens.session_state : null;
+  const active = Boolean(enabled && provider && sessionState);
+
+  useEffect(() => {
+    if (!active || !provider || !sessionState) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const iframe = document.createElement("iframe");
+    iframe.style.display = "none";
+    iframe.setAttribute("aria-hidden", "true");
+
+    // Try to pick up the new provider session without a redirect; a failure
+    // or a different user means this session is over
+    const handleChanged = async () => {
+      clearInterval(timer);
+      setStatus("reauthenticating");
+
+      const previous = latestRef.current.tokens;
+      try {
+        const refreshed = await silentAuthorize(provider);
+        if (stopped) return;
+
+        if (previous && subjectOf(refreshed) !== subjectOf(previous)) {
+          latestRef.current.onSessionEnded(
+            "A different user signed in at the identity provider."
+          );
+          return;
+        }
+        // The new session_state restarts the monitor
+        latestRef.current.onTokens(saveTokens(refreshed, previous));
+      } catch (err) {
+        if (stopped) return;
+        latestRef.current.onSessionEnded(
+          err instanceof OAuthError
+            ? `Your session at the identity provider ended (${err.error}).`
+            : "Your session at the identity provider changed."
+        );
+      }
+    };
+
+    let opOrigin: string | null = null;
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== opOrigin || event.source !== iframe.contentWindow) {
+        return;
+      }
+      if (event.data === "unchanged") {
+        setStatus("unchanged");
+      } else if (event.data === "changed") {
+        handleChanged();
+      } else if (event.data === "error") {
+        // The provider could not parse the message; stop polling
+        clearInterval(timer);
+        setStatus("error");
+      }
+    };
+
+    const start = async () => {
+      let checkSessionUrl: URL;
+      try {
+        checkSessionUrl = new URL(
+          await resolveEndpoint(provider.issuer, "check_session_iframe", {
+            proxyPath: provider.proxyPath,
+          }),
+          window.location.href
+        );
+      } catch (err) {
+        if (!stopped) {
+          setStatus(
+            err instanceof UnsupportedFeatureError ? "unsupported" : "error"
+          );
+        }
+        return;
+      }
+      if (stopped) return;
+
+      opOrigin = checkSessionUrl.origin;
+      const message = `${provider.clientId} ${sessionState}`;
+      iframe.onload = () => {
+        const poll = () =>
+          iframe.contentWindow?.postMessage(message, opOrigin!);
+        poll();
+        timer = setInterval(poll, pollIntervalMs);
+      };
+      iframe.src = checkSessionUrl.toString();
+      document.body.appendChild(iframe);
+    };
+
+    window.addEventListener("message", onMessage);
+    start();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      window.removeEventListener("message", onMessage);
+      iframe.remove();
+      setStatus("checking");
+    };
+  }, [active, provider, sessionState, pollIntervalMs]);
+
+  if (!enabled || !tokens) return "inactive";
+  if (!sessionState) return "unsupported";
+  return status;
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { requestTokens } from "@/lib/oidc/authorization";
+import { getDiscoveryDocument } from "@/lib/oidc/discovery";
+import { OAuthError } from "@/lib/oidc/errors";
+import { matchesFrontChannelLogout } from "@/lib/oidc/frontchannel-logout";
+import type { PublicProviderConfig } from "@/lib/oidc/providers";
+import {
+  clearTokens,
+  loadTokens,
+  StoredResourceToken,
+  saveResourceToken,
+  saveTokens,
+  StoredTokens,
+} from "@/lib/oidc/token-store";
+
+// Refresh this long before the access token expires
+const DEFAULT_REFRESH_BUFFER_MS = 60_000;
+const CHANNEL_NAME = "oidc-token-manager";
+
+// Tabs that share a refresh token (e.g. a duplicated tab) tell each other
+// about rotations, so only one of them spends the token. The front-channel
+// logout page uses the same channel to reach every open tab, and the page
+// tells them about refresh tokens it revoked.
+type TokenMessage =
+  | { type: "refreshed"; previousRefreshToken: string; tokens: StoredTokens }
+  | { type: "invalid_grant"; refreshToken: string }
+  | { type: "frontchannel_logout"; iss: string | null; sid: string | null };
+
+// Tells every tab that the provider ended the session identified by iss/sid.
+// Each tab checks that it names its own session.
+export function broadcastFrontChannelLogout(
+  iss: string | null,
+  sid: string | null
+) {
+  if (typeof BroadcastChannel === "undefined") return;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.postMessage({
+    type: "frontchannel_logout",
+    iss,
+    sid,
+  } satisfies TokenMessage);
+  channel.close();
+}
+
+// Tells the tabs sharing refreshToken that it was revoked, so they log out
+// rather than spend it
+export function broadcastRevokedRefreshToken(refreshToken: string) {
+  if (typeof BroadcastChannel === "undefined") return;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.postMessage({
+    type: "invalid_grant",
+    refreshToken,
+  } satisfies TokenMessage);
+  channel.close();
+}
+
+interface TokenManagerOptions {
+  enabled: boolean;
+  // The tokens currently shown by the app; their expiry drives the schedule
+  tokens: StoredTokens | null;
+  provider?: PublicProviderConfig;
+  onTokens: (tokens: StoredTokens) => void;
+  // The refresh token was rejected; the user has to log in again
+  onReloginRequired: (message: string) => void;
+  refreshBufferMs?: number;
+}
+
+// Token endpoint response, or its error as an OAuthError
+async function readTokenResponse(response: Response): Promise<StoredTokens> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new OAuthError(
+      errorData.error || "refresh_failed",
+      errorData.error_description || "Token refresh failed",
+      response.status
+    );
+  }
+  return response.json();
+}
+
+// Runs fn while holding a lock shared by every tab on this origin. Browsers
+// without the Web Locks API fall back to running it directly.
+async function withRefreshLock<T>(name: string, fn: () => Promise<T>) {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(name, fn) as Promise<T>;
+  }
+  return fn();
+}
+
+export function useTokenManager({
+  enabled,
+  tokens,
+  provider,
+  onTokens,
+  onReloginRequired,
+  refreshBufferMs = DEFAULT_REFRESH_BUFFER_MS,
+}: TokenManagerOptions) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const inFlightRef = useRef<Promise<StoredTokens | null> | null>(null);
+
+  // Keep the latest callbacks without re-subscribing effects
+  const callbacksRef = useRef({ onTokens, onReloginRequired });
+  useEffect(() => {
+    callbacksRef.current = { onTokens, onReloginRequired };
+  });
+
+  const applyTokens = useCallback((nextTokens: StoredTokens) => {
+    callbacksRef.current.onTokens(nextTokens);
+  }, []);
+
+  const forceRelogin = useCallback((message: string) => {
+    clearTokens();
+    callbacksRef.current.onReloginRequired(message);
+  }, []);
+
+  // Adopt rotations and failures broadcast by other tabs
+  useEffect(() => {
+    if (!enabled || typeof BroadcastChannel === "undefined") return;
+
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<TokenMessage>) => {
+      const current = loadTokens();
+      const message = event.data;
+
+      if (message.type === "frontchannel_logout") {
+        if (!current || !provider) return;
+        const { issuer, proxyPath } = provider;
+        getDiscoveryDocument(issuer, { proxyPath })
+          .then((discovery) => {
+            if (
+              matchesFrontChannelLogout(
+                current,
+                issuer,
+                message,
+                discovery.frontchannel_logout_session_supported === true
+              )
+            ) {
+              forceRelogin("You were logged out at the identity provider.");
+            }
+          })
+          .catch((err) =>
+            console.error("Failed to check the front-channel logout:", err)
+          );
+        return;
+      }
+      if (!current?.refresh_token) return;
+
+      if (
+        message.type === "refreshed" &&
+        message.previousRefreshToken === current.refresh_token
+      ) {
+        applyTokens(saveTokens(message.tokens, current));
+      } else if (
+        message.type === "invalid_grant" &&
+        message.refreshToken === current.refresh_token
+      ) {
+        forceRelogin("Your session has expired. Please log in again.");
+      }
+    };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [enabled, provider, applyTokens, forceRelogin]);
+
+  const performRefresh = useCallback(async () => {
+    if (!provider) {
+      throw new Error("No OIDC provider selected.");
+    }
+    const starting = loadTokens();
+    if (!starting?.refresh_token) {
+      throw new Error("No refresh token found.");
+    }
+
+    return withRefreshLock(`oidc-refresh:${provider.id}`, async () => {
+      // Another tab may have refreshed while we waited for the lock. A token
+      // fetched for another resource rotates only the refresh token.
+      const current = loadTokens();
+      if (!current?.refresh_token) {
+        throw new Error("No refresh token found.");
+      }
+      if (current.access_token !== starting.access_token) {
+        applyTokens(current);
+        return current;
+      }
+
+      const response = await requestTokens(provider, {
+        grant_type: "refresh_token",
+        refresh_token: current.refresh_token,
+        client_id: provider.clientId,
+      });
+
+      const refreshed = saveTokens(await readTokenResponse(response), current);
+      channelRef.current?.postMessage({
+        type: "refreshed",
+        previousRefreshToken: current.refresh_token,
+        tokens: refreshed,
+      } satisfies TokenMessage);
+      applyTokens(refreshed);
+      return refreshed;
+    });
+  }, [provider, applyTokens]);
+
+  // An invalid_grant (expired, revoked or reused refresh token) logs out
+  const handleRefreshError = useCallback(
+    (err: unknown): null => {
+      if (err instanceof OAuthError && err.error === "invalid_grant") {
+        const refreshToken = loadTokens()?.refresh_token;
+        if (refreshToken) {
+          channelRef.current?.postMessage({
+            type: "invalid_grant",
+            refreshToken,
+          } satisfies TokenMessage);
+        }
+        forceRelogin(
+          `Your session has expired (${err.message}). Please log in again.`
+        );
+        return null;
+      }
+      throw err;
+    },
+    [forceRelogin]
+  );
+
+  // Refreshes the tokens, sharing one request between concurrent callers
+  const refresh = useCallback(async () => {
+    if (!inFlightRef.current) {
+      inFlightRef.current = performRefresh()
+        .catch(handleRefreshError)
+        .finally(() => {
+          inFlightRef.current = null;
+        });
+    }
+    return inFlightRef.current;
+  }, [performRefresh, handleRefreshError]);
+
+  // Access token for another API (RFC 8707), optionally downscoped: reused
+  // while still valid, otherwise obtained with the refresh token under the
+  // same lock as refreshes. The main access token is kept.
+  const getResourceToken = useCallback(
+    async (
+      resource: string,
+      scope?: string
+    ): Promise<StoredResourceToken | null> => {
+      if (!provider) {
+        throw new Error("No OIDC provider selected.");
+      }
+      const isUsable = (token?: StoredResourceToken) =>
+        token &&
+        (!scope || token.scope === scope) &&
+        (!token.expires_at || token.expires_at - refreshBufferMs > Date.now());
+
+      const cached = loadTokens()?.resource_tokens?.[resource];
+      if (isUsable(cached)) return cached!;
+
+      return withRefreshLock(`oidc-refresh:${provider.id}`, async () => {
+        // Another tab may have fetched it while we waited for the lock
+        const current = loadTokens();
+        if (!current?.refresh_token) {
+          throw new Error("No refresh token found.");
+        }
+        if (isUsable(current.resource_tokens?.[resource])) {
+          applyTokens(current);
+          return current.resource_tokens![resource];
+        }
+
+        const params: Record<string, string> = {
+          grant_type: "refresh_token",
+          refresh_token: current.refresh_token,
+          client_id: provider.clientId,
+          resource,
+        };
+        if (scope) params.scope = scope;
+        const response = await requestTokens(provider, params);
+
+        const saved = saveResourceToken(
+          current,
+          resource,
+          await readTokenResponse(response)
+        );
+        channelRef.current?.postMessage({
+          type: "refreshed",
+          previousRefreshToken: current.refresh_token,
+          tokens: saved,
+        } satisfies TokenMessage);
+        applyTokens(saved);
+        return saved.resource_tokens![resource];
+      }).catch(handleRefreshError);
+    },
+    [provider, applyTokens, handleRefreshError, refreshBufferMs]
+  );
+
+  const expiresAt = enabled ? (tokens?.expires_at ?? null) : null;
+  const canRefresh = Boolean(enabled && tokens?.refresh_token);
+
+  // Schedule the next refresh ahead of expiry
+  useEffect(() => {
+    if (!canRefresh || !expiresAt) return;
+
+    const delay = Math.max(0, expiresAt - refreshBufferMs - Date.now());
+    const timer = setTimeout(() => {
+      refresh().catch((err) =>
+        console.error("Background token refresh failed:", err)
+      );
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [canRefresh, expiresAt, refreshBufferMs, refresh]);
+
+  return { refresh, getResourceToken, expiresAt };
+}
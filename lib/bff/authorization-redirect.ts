@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveEndpoint, toProxyUrl } from "@/lib/oidc/discovery";
+import { OAuthError } from "@/lib/oidc/errors";
+import { base64UrlDecode, decodeJwt } from "@/lib/oidc/jwt";
+import { getProvider, ProviderConfig } from "@/lib/oidc/providers";
+import {
+  AUTHORIZATION_BROWSER_COOKIE,
+  AuthorizationTransaction,
+  browserCookieOptions,
+  createAuthorizationTransaction,
+  createBrowserId,
+  saveAuthorizationTransaction,
+} from "./authorization-transactions";
+import { FormParams, toSearchParams } from "./client";
+import {
+  AuthorizationOptions,
+  prepareAuthorizationParams,
+} from "./request-object";
+
+// Server side of authorization requests that need the client's credentials or
+// keys (PAR, JAR), for clients that can't hold them: the browser test client
+// and NextAuth. Takes ?provider=<id>, redirect_uri and the parameters in
+// CALLER_PARAMS, and redirects to the provider's authorization endpoint with
+// the prepared parameters. State, nonce and PKCE come from a server-side
+// transaction (authorization-transactions.ts) that the callback redeems.
+// ?par= and ?jar= override the route's defaults; ?preview=true returns the
+// plain and prepared URLs as JSON instead of redirecting, outside production
+// only.
+
+const CONTROL_PARAMS = ["provider", "par", "jar", "preview"];
+// Set by the caller, checked against the provider's registration
+const CALLER_PARAMS = [
+  "client_id",
+  "redirect_uri",
+  "response_type",
+  "scope",
+  "resource",
+  "prompt",
+  "dpop_jkt",
+];
+const PROMPTS = ["none", "login", "consent", "select_account"];
+
+function invalidRequest(description: string) {
+  return NextResponse.json(
+    { error: "invalid_request", error_description: description },
+    { status: 400 }
+  );
+}
+
+async function authorizationUrl(
+  provider: ProviderConfig,
+  params: URLSearchParams
+) {
+  const authorizationEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "authorization_endpoint"
+  );
+  // Go through the provider's proxy path, when it has one, so provider
+  // cookies are set on this origin
+  const url = toProxyUrl(
+    authorizationEndpoint,
+    provider.issuer,
+    provider.proxyPath
+  );
+  return `${url}?${params.toString()}`;
+}
+
+// The parameters to push or sign: the caller's, once checked, and the
+// transaction's. Returns an error description for anything else.
+function authorizationParams(
+  provider: ProviderConfig,
+  query: URLSearchParams,
+  transaction: AuthorizationTransaction
+): FormParams | string {
+  for (const key of query.keys()) {
+    if (!CONTROL_PARAMS.includes(key) && !CALLER_PARAMS.includes(key)) {
+      return `${key} can't be set through this route`;
+    }
+  }
+  const responseType = query.get("response_type");
+  if (responseType && responseType !== "code") {
+    return "response_type must be code";
+  }
+
+  const scopes = query.has("scope")
+    ? (query.get("scope") ?? "").split(" ").filter(Boolean)
+    : provider.scopes;
+  const unknownScope = scopes.find((scope) => !provider.scopes.includes(scope));
+  if (unknownScope) {
+    return `Scope ${unknownScope} is not configured for provider ${provider.id}`;
+  }
+  const resources = query.getAll("resource");
+  const unknownResource = resources.find(
+    (resource) => !provider.resources.includes(resource)
+  );
+  if (unknownResource) {
+    return `Resource ${unknownResource} is not configured for provider ${provider.id}`;
+  }
+
+  const params: FormParams = {
+    client_id: provider.clientId,
+    redirect_uri: transaction.redirectUri,
+    response_type: "code",
+    scope: scopes.join(" "),
+    code_challenge: transaction.codeChallenge,
+    code_challenge_method: "S256",
+    state: transaction.state,
+    nonce: transaction.nonce,
+  };
+  if (resources.length > 0) params.resource = resources;
+
+  const prompt = query.get("prompt");
+  if (prompt) {
+    if (!PROMPTS.includes(prompt)) return `Unsupported prompt ${prompt}`;
+    params.prompt = prompt;
+  }
+  // Binds the code to the browser's DPoP key
+  const dpopJkt = query.get("dpop_jkt");
+  if (dpopJkt) {
+    if (!provider.useDpop || !/^[\w-]{43}$/.test(dpopJkt)) {
+      return "dpop_jkt is not a DPoP key thumbprint for this provider";
+    }
+    params.dpop_jkt = dpopJkt;
+  }
+  return params;
+}
+
+// Decoded request object for previews; an encrypted one only shows its header
+function describeRequestObject(requestObject: string | null) {
+  if (!requestObject) return undefined;
+  const segments = requestObject.split(".");
+  if (segments.length === 5) {
+    return {
+      encrypted: true,
+      header: JSON.parse(
+        new TextDecoder().decode(base64UrlDecode(segments[0]))
+      ),
+    };
+  }
+  return { encrypted: false, ...decodeJwt(requestObject) };
+}
+
+export async function redirectToAuthorization(
+  request: NextRequest,
+  defaults: AuthorizationOptions
+) {
+  const query = request.nextUrl.searchParams;
+  const preview = query.get("preview") === "true";
+  // A preview hands out the signed request object itself
+  if (preview && process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const flag = (key: "par" | "jar") =>
+    query.has(key) ? query.get(key) === "true" : defaults[key];
+  const options = { par: flag("par"), jar: flag("jar") };
+
+  let provider;
+  try {
+    provider = getProvider(query.get("provider") ?? "");
+  } catch (err) {
+    return invalidRequest(err instanceof Error ? err.message : String(err));
+  }
+
+  // Never redirect errors to a URI the client has not registered
+  const redirectUri = query.get("redirect_uri");
+  if (!redirectUri || !provider.redirectUris.includes(redirectUri)) {
+    return invalidRequest(
+      `redirect_uri is not registered for provider ${provider.id}`
+    );
+  }
+  const clientId = query.get("client_id");
+  if (clientId && clientId !== provider.clientId) {
+    return invalidRequest(`client_id does not match provider ${provider.id}`);
+  }
+
+  const browserId =
+    request.cookies.get(AUTHORIZATION_BROWSER_COOKIE)?.value ??
+    createBrowserId();
+  const transaction = await createAuthorizationTransaction({
+    providerId: provider.id,
+    redirectUri,
+    browserId,
+  });
+  const authParams = authorizationParams(provider, query, transaction);
+  if (typeof authParams === "string") return invalidRequest(authParams);
+
+  if (!preview) saveAuthorizationTransaction(transaction);
+  // The callback can only redeem the transaction from this browser
+  const withBrowserCookie = (response: NextResponse) => {
+    response.cookies.set(
+      AUTHORIZATION_BROWSER_COOKIE,
+      browserId,
+      browserCookieOptions()
+    );
+    return response;
+  };
+
+  try {
+    const prepared = await prepareAuthorizationParams(
+      provider,
+      authParams,
+      options
+    );
+    const url = await authorizationUrl(provider, prepared);
+
+    if (preview) {
+      return NextResponse.json({
+        ...options,
+        plainUrl: await authorizationUrl(provider, toSearchParams(authParams)),
+        url,
+        requestObject: describeRequestObject(prepared.get("request")),
+      });
+    }
+    return withBrowserCookie(NextResponse.redirect(new URL(url, request.url)));
+  } catch (err) {
+    console.error("Authorization request error:", err);
+    if (preview) {
+      return invalidRequest(err instanceof Error ? err.message : String(err));
+    }
+    // Report the failure like an authorization error response so the
+    // client's callback handles it
+    const callback = new URL(redirectUri);
+    callback.searchParams.set(
+      "error",
+      err instanceof OAuthError ? err.error : "server_error"
+    );
+    callback.searchParams.set(
+      "error_description",
+      err instanceof Error ? err.message : "Authorization request failed"
+    );
+    callback.searchParams.set("state", transaction.state);
+    return withBrowserCookie(NextResponse.redirect(callback));
+  }
+}
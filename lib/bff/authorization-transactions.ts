@@ -0,0 +1,93 @@
+import { generateRandomString, sha256 } from "@/lib/oidc/pkce";
+
+// Authorization requests that /api/par and /api/jar push or sign with the
+// client's credentials. Their state, nonce and PKCE verifier are generated
+// here and kept until the callback, and only the browser that started the
+// request (identified by an HttpOnly cookie) can redeem them. Callers can't
+// get a client-signed request with values of their own choosing.
+//
+// Server-only.
+
+export interface AuthorizationTransaction {
+  providerId: string;
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  codeChallenge: string;
+  // Value of the browser cookie the transaction is bound to
+  browserId: string;
+  createdAt: number;
+}
+
+export const AUTHORIZATION_BROWSER_COOKIE = "oidc_authz_browser";
+
+const TRANSACTION_TTL_MS = 10 * 60 * 1000;
+
+// Keyed by state. Kept on globalThis so every route bundle and hot reload
+// shares them.
+const globalForTransactions = globalThis as unknown as {
+  oidcAuthorizationTransactions?: Map<string, AuthorizationTransaction>;
+};
+const transactions = (globalForTransactions.oidcAuthorizationTransactions ??=
+  new Map());
+
+export function createBrowserId() {
+  return generateRandomString(43);
+}
+
+export function browserCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: TRANSACTION_TTL_MS / 1000,
+  };
+}
+
+// New state, nonce and PKCE values for a request from browserId. Not stored
+// until saveAuthorizationTransaction, so previews leave nothing behind.
+export async function createAuthorizationTransaction(
+  values: Pick<
+    AuthorizationTransaction,
+    "providerId" | "redirectUri" | "browserId"
+  >
+): Promise<AuthorizationTransaction> {
+  const codeVerifier = generateRandomString(128);
+  return {
+    ...values,
+    state: generateRandomString(32),
+    nonce: generateRandomString(32),
+    codeVerifier,
+    codeChallenge: await sha256(codeVerifier),
+    createdAt: Date.now(),
+  };
+}
+
+export function saveAuthorizationTransaction(
+  transaction: AuthorizationTransaction
+) {
+  const now = Date.now();
+  for (const [state, entry] of transactions) {
+    if (now - entry.createdAt > TRANSACTION_TTL_MS) transactions.delete(state);
+  }
+  transactions.set(transaction.state, transaction);
+}
+
+// Transactions are single-use: the entry is removed when its browser redeems
+// it
+export function redeemAuthorizationTransaction(
+  state: string | null | undefined,
+  browserId: string | undefined
+): AuthorizationTransaction | null {
+  const transaction = state ? transactions.get(state) : undefined;
+  if (!transaction || !browserId || transaction.browserId !== browserId) {
+    return null;
+  }
+
+  transactions.delete(transaction.state);
+  return Date.now() - transaction.createdAt > TRANSACTION_TTL_MS
+    ? null
+    : transaction;
+}
@@ -0,0 +1,293 @@
+import { authenticateClient } from "@/lib/oidc/client-auth";
+import { resolveEndpoint } from "@/lib/oidc/discovery";
+import {
+  DpopKey,
+  dpopFetch,
+  generateDpopKey,
+  isDpopTokenType,
+} from "@/lib/oidc/dpop";
+import { OAuthError } from "@/lib/oidc/errors";
+import { getTestClientRedirectUri, ProviderConfig } from "@/lib/oidc/providers";
+import type { BffTokens } from "./session";
+
+// Server-side OIDC calls made by the BFF routes on behalf of the browser
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+export type TokenTypeHint = "access_token" | "refresh_token";
+
+// Form or query parameters. Some may repeat, e.g. resource (RFC 8707).
+export type FormParams = Record<string, string | string[]>;
+
+export function toSearchParams(params: FormParams) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const member of [value].flat()) search.append(key, member);
+  }
+  return search;
+}
+
+// Repeated parameters become arrays
+export function fromSearchParams(search: URLSearchParams): FormParams {
+  const params: FormParams = {};
+  for (const key of new Set(search.keys())) {
+    const values = search.getAll(key);
+    params[key] = values.length > 1 ? values : values[0];
+  }
+  return params;
+}
+
+export function getRedirectUri(provider: ProviderConfig): string {
+  const redirectUri = getTestClientRedirectUri(provider);
+  if (!redirectUri) {
+    throw new Error(
+      `Provider ${provider.id} has no /auth/callback redirect URI registered`
+    );
+  }
+  return redirectUri;
+}
+
+const globalForDpop = globalThis as unknown as {
+  oidcDpopKey?: Promise<DpopKey>;
+};
+
+// The server's DPoP key, shared by the BFF and NextAuth. It lives as long as
+// the process; tokens bound to it are refreshed onto a new key after a
+// restart.
+export function getServerDpopKey(): Promise<DpopKey> {
+  globalForDpop.oidcDpopKey ??= generateDpopKey();
+  return globalForDpop.oidcDpopKey;
+}
+
+// Authenticated POST to one of the provider's client endpoints. With dpop
+// (token requests of DPoP providers) a DPoP proof is attached.
+export async function postForm(
+  provider: ProviderConfig,
+  url: string,
+  params: FormParams,
+  {
+    dpop = false,
+    headers: extraHeaders,
+  }: { dpop?: boolean; headers?: Record<string, string> } = {}
+) {
+  // Built per attempt: a DPoP nonce retry needs a fresh client assertion
+  const buildRequest = async (): Promise<RequestInit> => {
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+    const body = toSearchParams(params);
+    body.set("client_id", provider.clientId);
+    await authenticateClient(provider, headers, body);
+    return {
+      method: "POST",
+      headers,
+      body: body.toString(),
+      cache: "no-store",
+    };
+  };
+
+  const response = dpop
+    ? await dpopFetch(await getServerDpopKey(), url, buildRequest)
+    : await fetch(url, await buildRequest());
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new OAuthError(
+      errorData.error || "request_failed",
+      errorData.error_description || `${url} returned HTTP ${response.status}`,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+export function toBffTokens(
+  tokenData: TokenResponse,
+  previous?: BffTokens
+): BffTokens {
+  return {
+    accessToken: tokenData.access_token,
+    // Providers may omit refresh_token / id_token on refresh
+    refreshToken: tokenData.refresh_token ?? previous?.refreshToken,
+    idToken: tokenData.id_token ?? previous?.idToken,
+    tokenType: tokenData.token_type,
+    scope: tokenData.scope ?? previous?.scope,
+    expiresAt: tokenData.expires_in
+      ? Date.now() + tokenData.expires_in * 1000
+      : undefined,
+  };
+}
+
+// Options of refresh requests. resource (RFC 8707) asks for an access token
+// for that API, and scope narrows it to some of the granted scopes.
+export interface TokenRequestOptions {
+  resource?: string;
+  scope?: string;
+}
+
+function withTokenOptions(
+  params: Record<string, string>,
+  { resource, scope }: TokenRequestOptions
+) {
+  if (resource) params.resource = resource;
+  if (scope) params.scope = scope;
+  return params;
+}
+
+export async function exchangeCode(
+  provider: ProviderConfig,
+  code: string,
+  codeVerifier: string,
+  redirectUri = getRedirectUri(provider)
+): Promise<TokenResponse> {
+  const tokenEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "token_endpoint"
+  );
+  const response = await postForm(
+    provider,
+    tokenEndpoint,
+    {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+    },
+    { dpop: provider.useDpop }
+  );
+  return response.json();
+}
+
+// Pushed Authorization Request (RFC 9126): sends the authorization parameters
+// over the back channel. Returns the parameters that replace them on the
+// authorization endpoint, only client_id and request_uri.
+export async function pushAuthorizationRequest(
+  provider: ProviderConfig,
+  params: FormParams
+): Promise<URLSearchParams> {
+  const parEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "pushed_authorization_request_endpoint"
+  );
+  const response = await postForm(provider, parEndpoint, params);
+  const { request_uri: requestUri } = await response.json();
+  if (typeof requestUri !== "string") {
+    throw new OAuthError(
+      "invalid_request_uri",
+      `${parEndpoint} did not return a request_uri`,
+      502
+    );
+  }
+
+  return new URLSearchParams({
+    client_id: provider.clientId,
+    request_uri: requestUri,
+  });
+}
+
+export async function refreshTokens(
+  provider: ProviderConfig,
+  refreshToken: string,
+  options: TokenRequestOptions = {}
+): Promise<TokenResponse> {
+  const tokenEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "token_endpoint"
+  );
+  const response = await postForm(
+    provider,
+    tokenEndpoint,
+    withTokenOptions(
+      { grant_type: "refresh_token", refresh_token: refreshToken },
+      options
+    ),
+    { dpop: provider.useDpop }
+  );
+  return response.json();
+}
+
+export async function revokeToken(
+  provider: ProviderConfig,
+  token: string,
+  tokenTypeHint: TokenTypeHint
+) {
+  const revocationEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "revocation_endpoint"
+  );
+  await postForm(provider, revocationEndpoint, {
+    token,
+    token_type_hint: tokenTypeHint,
+  });
+}
+
+export async function fetchUserInfo(
+  provider: ProviderConfig,
+  accessToken: string,
+  tokenType?: string
+) {
+  const userinfoEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "userinfo_endpoint"
+  );
+  const response = isDpopTokenType(tokenType)
+    ? await dpopFetch(
+        await getServerDpopKey(),
+        userinfoEndpoint,
+        { cache: "no-store" },
+        { accessToken }
+      )
+    : await fetch(userinfoEndpoint, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        cache: "no-store",
+      });
+
+  if (!response.ok) {
+    throw new OAuthError(
+      "userinfo_failed",
+      `Failed to get user info (HTTP ${response.status})`,
+      response.status
+    );
+  }
+  return response.json();
+}
+
+interface EndSessionOptions {
+  idToken?: string;
+  postLogoutRedirectUri?: string;
+  // Echoed back to the post-logout redirect URI for the caller to verify
+  state?: string;
+}
+
+export async function buildEndSessionUrl(
+  provider: ProviderConfig,
+  {
+    idToken,
+    postLogoutRedirectUri = provider.postLogoutRedirectUri,
+    state = crypto.randomUUID(),
+  }: EndSessionOptions = {}
+) {
+  const logoutUrl = new URL(
+    await resolveEndpoint(provider.issuer, "end_session_endpoint")
+  );
+  if (postLogoutRedirectUri) {
+    logoutUrl.searchParams.set(
+      "post_logout_redirect_uri",
+      postLogoutRedirectUri
+    );
+  }
+  if (idToken) {
+    logoutUrl.searchParams.set("id_token_hint", idToken);
+  }
+  logoutUrl.searchParams.set("state", state);
+  return logoutUrl;
+}
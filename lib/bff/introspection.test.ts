@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ProviderConfig } from "@/lib/oidc/providers";
+import { introspect } from "./introspection";
+
+const ISSUER = "https://public-idp.example.com";
+
+const publicProvider: ProviderConfig = {
+  id: "public",
+  name: "Public",
+  issuer: ISSUER,
+  clientId: "public-client",
+  tokenEndpointAuthMethod: "none",
+  tokenEndpointAuthSigningAlg: "RS256",
+  scopes: ["openid"],
+  redirectUris: ["http://localhost:3000/auth/callback"],
+  requestObjectSigningAlg: "RS256",
+  resources: [],
+};
+
+const discoveryDocument = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/auth`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+  introspection_endpoint: `${ISSUER}/token/introspection`,
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("introspect", () => {
+  it("identifies a public client by client_id and returns the result", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      Response.json(
+        url.endsWith("/.well-known/openid-configuration")
+          ? discoveryDocument
+          : { active: true, client_id: "public-client", scope: "openid" }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await introspect(publicProvider, "access-token", {
+      tokenTypeHint: "access_token",
+    });
+
+    const [url, init] = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/token/introspection")
+    ) as unknown as [string, RequestInit];
+    const body = new URLSearchParams(init.body as string);
+    expect(url).toBe(`${ISSUER}/token/introspection`);
+    expect(body.get("client_id")).toBe("public-client");
+    expect(body.get("token")).toBe("access-token");
+    expect(body.get("token_type_hint")).toBe("access_token");
+    expect(result).toMatchObject({
+      active: true,
+      signed: false,
+      cached: false,
+      claims: { client_id: "public-client" },
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { getDiscoveryDocument, resolveEndpoint } from "@/lib/oidc/discovery";
+import { OAuthError } from "@/lib/oidc/errors";
+import {
+  describeIntrospection,
+  IntrospectionClaims,
+  IntrospectionResult,
+} from "@/lib/oidc/introspection";
+import { verifyJwt } from "@/lib/oidc/jwks";
+import { base64UrlEncode } from "@/lib/oidc/jwt";
+import type { ProviderConfig } from "@/lib/oidc/providers";
+import { postForm, TokenTypeHint } from "./client";
+
+// Token introspection (RFC 7662) as the registered client, used by the BFF,
+// the test client's /api/introspect and the resource server. Providers that
+// advertise introspection_signing_alg_values_supported are asked for signed
+// responses (RFC 9701), which are verified against the issuer's JWKS. Active
+// results are cached until the token expires, for at most
+// INTROSPECTION_CACHE_MAX_MS.
+
+const JWT_RESPONSE_TYPE = "application/token-introspection+jwt";
+
+// Active results are reused for at most this long, so revocations elsewhere
+// take effect
+const INTROSPECTION_CACHE_MAX_MS = 5 * 60 * 1000;
+
+export interface IntrospectOptions {
+  tokenTypeHint?: TokenTypeHint;
+  // false asks the provider even if an active result is cached, e.g. to
+  // confirm a revocation
+  cache?: boolean;
+}
+
+const introspectionCache = new Map<
+  string,
+  { result: IntrospectionResult; expiresAt: number }
+>();
+
+// Keyed by a hash so the cache never holds the tokens themselves
+async function cacheKey(provider: ProviderConfig, token: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return `${provider.id}:${base64UrlEncode(new Uint8Array(digest))}`;
+}
+
+function invalidResponse(description: string) {
+  return new OAuthError("invalid_introspection_response", description, 502);
+}
+
+// RFC 9701 section 5: a JWT from the issuer, for this client, carrying the
+// usual response in its token_introspection claim
+async function verifySignedResponse(
+  provider: ProviderConfig,
+  jwt: string
+): Promise<IntrospectionClaims> {
+  if (jwt.split(".").length === 5) {
+    throw invalidResponse(
+      "Encrypted introspection responses are not supported"
+    );
+  }
+
+  let verified;
+  try {
+    verified = await verifyJwt(
+      jwt,
+      await resolveEndpoint(provider.issuer, "jwks_uri")
+    );
+  } catch (err) {
+    throw invalidResponse(err instanceof Error ? err.message : String(err));
+  }
+
+  const { header, payload } = verified;
+  if (header.typ !== "token-introspection+jwt") {
+    throw invalidResponse(
+      'Signed introspection response must have typ "token-introspection+jwt"'
+    );
+  }
+  if (payload.iss !== provider.issuer) {
+    throw invalidResponse(
+      `Introspection response was not issued by ${provider.issuer}`
+    );
+  }
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(provider.clientId)) {
+    throw invalidResponse(
+      `Introspection response audience does not include ${provider.clientId}`
+    );
+  }
+  if (typeof payload.iat !== "number") {
+    throw invalidResponse("Introspection response is missing the iat claim");
+  }
+
+  const claims = payload.token_introspection as IntrospectionClaims | undefined;
+  if (!claims || typeof claims.active !== "boolean") {
+    throw invalidResponse(
+      "Introspection response has no token_introspection claim"
+    );
+  }
+  return claims;
+}
+
+async function requestIntrospection(
+  provider: ProviderConfig,
+  token: string,
+  tokenTypeHint?: TokenTypeHint
+) {
+  const document = await getDiscoveryDocument(provider.issuer);
+  const introspectionEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "introspection_endpoint"
+  );
+  const params: Record<string, string> = { token };
+  if (tokenTypeHint) params.token_type_hint = tokenTypeHint;
+
+  const response = await postForm(provider, introspectionEndpoint, params, {
+    headers: {
+      Accept: document.introspection_signing_alg_values_supported?.length
+        ? JWT_RESPONSE_TYPE
+        : "application/json",
+    },
+  });
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.startsWith(JWT_RESPONSE_TYPE)) {
+    const claims = await verifySignedResponse(
+      provider,
+      (await response.text()).trim()
+    );
+    return { claims, signed: true };
+  }
+
+  const claims = await response.json().catch(() => null);
+  if (typeof claims?.active !== "boolean") {
+    throw invalidResponse("Introspection response has no active member");
+  }
+  return { claims: claims as IntrospectionClaims, signed: false };
+}
+
+export async function introspect(
+  provider: ProviderConfig,
+  token: string,
+  { tokenTypeHint, cache = true }: IntrospectOptions = {}
+): Promise<IntrospectionResult> {
+  const key = await cacheKey(provider, token);
+  const now = Date.now();
+  const cached = introspectionCache.get(key);
+  if (cache && cached && cached.expiresAt > now) {
+    return { ...cached.result, cached: true };
+  }
+
+  for (const [cachedKey, entry] of introspectionCache) {
+    if (entry.expiresAt <= now) introspectionCache.delete(cachedKey);
+  }
+
+  const { claims, signed } = await requestIntrospection(
+    provider,
+    token,
+    tokenTypeHint
+  );
+  const result: IntrospectionResult = {
+    active: claims.active,
+    reason: describeIntrospection(claims, token),
+    claims,
+    signed,
+    cached: false,
+  };
+
+  // Tokens without exp are asked about every time
+  if (claims.active && typeof claims.exp === "number") {
+    introspectionCache.set(key, {
+      result,
+      expiresAt: Math.min(claims.exp * 1000, now + INTROSPECTION_CACHE_MAX_MS),
+    });
+  } else {
+    introspectionCache.delete(key);
+  }
+  return result;
+}
+
+// Drops a cached result, e.g. after revoking the token
+export async function forgetIntrospection(
+  provider: ProviderConfig,
+  token: string
+) {
+  introspectionCache.delete(await cacheKey(provider, token));
+}
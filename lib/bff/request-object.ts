@@ -0,0 +1,90 @@
+import { signClientJwt } from "@/lib/oidc/client-keys";
+import { getDiscoveryDocument, resolveEndpoint } from "@/lib/oidc/discovery";
+import { encryptJwt, JWE_ALG } from "@/lib/oidc/jwe";
+import { getJwks } from "@/lib/oidc/jwks";
+import type { ProviderConfig } from "@/lib/oidc/providers";
+import {
+  FormParams,
+  fromSearchParams,
+  pushAuthorizationRequest,
+  toSearchParams,
+} from "./client";
+
+// JWT-Secured Authorization Requests (RFC 9101): the authorization parameters
+// travel as a request object signed with the client's key, so they can't be
+// altered in the browser
+
+const REQUEST_OBJECT_LIFETIME_S = 5 * 60;
+
+export interface AuthorizationOptions {
+  par?: boolean;
+  jar?: boolean;
+}
+
+// Signs params as a request object, and encrypts it to the provider when the
+// provider is configured with encryptRequestObject
+export async function createRequestObject(
+  provider: ProviderConfig,
+  params: FormParams
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const requestObject = await signClientJwt(
+    {
+      ...params,
+      client_id: provider.clientId,
+      iss: provider.clientId,
+      aud: provider.issuer,
+      iat: now,
+      nbf: now,
+      exp: now + REQUEST_OBJECT_LIFETIME_S,
+      jti: crypto.randomUUID(),
+    },
+    provider.requestObjectSigningAlg,
+    "oauth-authz-req+jwt"
+  );
+  if (!provider.encryptRequestObject) return requestObject;
+
+  const discovery = await getDiscoveryDocument(provider.issuer);
+  const supported = discovery.request_object_encryption_alg_values_supported;
+  if (Array.isArray(supported) && !supported.includes(JWE_ALG)) {
+    throw new Error(
+      `${provider.issuer} does not accept request objects encrypted with ${JWE_ALG}`
+    );
+  }
+  const jwksUri = await resolveEndpoint(provider.issuer, "jwks_uri");
+  return encryptJwt(requestObject, await getJwks(jwksUri));
+}
+
+// Replaces plain authorization parameters with what the authorization
+// endpoint should receive: a request object (jar), a request_uri (par), or a
+// pushed request object (both)
+export async function prepareAuthorizationParams(
+  provider: ProviderConfig,
+  params: FormParams,
+  { par = false, jar = false }: AuthorizationOptions
+): Promise<URLSearchParams> {
+  let prepared = toSearchParams(params);
+
+  if (jar) {
+    prepared = new URLSearchParams({
+      client_id: provider.clientId,
+      request: await createRequestObject(provider, params),
+    });
+    // OpenID Connect still expects these as query parameters; the provider
+    // uses the values from the request object
+    if (!par) {
+      for (const key of ["response_type", "scope"]) {
+        if (typeof params[key] === "string") prepared.set(key, params[key]);
+      }
+    }
+  }
+
+  if (par) {
+    prepared = await pushAuthorizationRequest(
+      provider,
+      fromSearchParams(prepared)
+    );
+  }
+
+  return prepared;
+}
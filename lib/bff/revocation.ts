@@ -0,0 +1,195 @@
+import { OAuthError } from "@/lib/oidc/errors";
+import type { ProviderConfig } from "@/lib/oidc/providers";
+import {
+  getServerDpopKey,
+  refreshTokens,
+  revokeToken,
+  TokenTypeHint,
+} from "./client";
+import { forgetIntrospection, introspect } from "./introspection";
+
+// Token revocation (RFC 7009) followed by checks that the token, and the
+// tokens of the same grant, no longer work: the revoked token is introspected
+// again and, for a refresh token, used for one more refresh.
+
+export interface RevocationCheck {
+  name: string;
+  // info: neither outcome is wrong, e.g. a refresh token that outlives a
+  // revoked access token
+  status: "passed" | "failed" | "skipped" | "info";
+  detail: string;
+}
+
+export interface RevocationReport {
+  revoked: TokenTypeHint;
+  checks: RevocationCheck[];
+  // At least one check passed and none failed
+  confirmed: boolean;
+}
+
+export interface GrantTokens {
+  accessToken?: string;
+  refreshToken?: string;
+  // Thumbprint of the DPoP key the grant is bound to, when it is not the
+  // server's, e.g. the browser's key in the browser flow
+  dpopJkt?: string;
+}
+
+function describeError(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Introspects without the cache and reports whether the token is dead. A
+// token that may legitimately survive is reported as info.
+async function checkInactive(
+  provider: ProviderConfig,
+  name: string,
+  token: string,
+  tokenTypeHint: TokenTypeHint,
+  { mayBeActive = false } = {}
+): Promise<RevocationCheck> {
+  try {
+    const result = await introspect(provider, token, {
+      tokenTypeHint,
+      cache: false,
+    });
+    if (!result.active) {
+      return {
+        name,
+        status: mayBeActive ? "info" : "passed",
+        detail: `Inactive: ${result.reason}`,
+      };
+    }
+    return {
+      name,
+      status: mayBeActive ? "info" : "failed",
+      detail: `Still active: ${result.reason}`,
+    };
+  } catch (err) {
+    return { name, status: "skipped", detail: describeError(err) };
+  }
+}
+
+// A revoked refresh token must be refused with invalid_grant. If the refresh
+// still works, the tokens it issued are revoked again so the check leaves
+// nothing usable behind. A refresh token bound to a DPoP key the server
+// doesn't hold can't be tried: the provider would refuse the proof, not the
+// token.
+async function checkRefreshRefused(
+  provider: ProviderConfig,
+  refreshToken: string,
+  dpopJkt?: string
+): Promise<RevocationCheck> {
+  const name = "Refresh with the revoked refresh token";
+  if (
+    provider.useDpop &&
+    dpopJkt &&
+    dpopJkt !== (await getServerDpopKey()).jkt
+  ) {
+    return {
+      name,
+      status: "skipped",
+      detail:
+        "The refresh token is bound to a DPoP key the server doesn't hold",
+    };
+  }
+
+  try {
+    const tokens = await refreshTokens(provider, refreshToken);
+    await Promise.all([
+      revokeToken(provider, tokens.access_token, "access_token"),
+      tokens.refresh_token &&
+        revokeToken(provider, tokens.refresh_token, "refresh_token"),
+    ]).catch(() => undefined);
+    return {
+      name,
+      status: "failed",
+      detail: "The provider issued new tokens (revoked again by this check)",
+    };
+  } catch (err) {
+    if (err instanceof OAuthError && err.error === "invalid_grant") {
+      return { name, status: "passed", detail: `Refused: ${err.message}` };
+    }
+    return {
+      name,
+      status: "failed",
+      detail: `Refused, but not with invalid_grant: ${describeError(err)}`,
+    };
+  }
+}
+
+// Revokes one of the grant's tokens, then checks what still works. Throws
+// only when the revocation request itself fails.
+export async function revokeAndVerify(
+  provider: ProviderConfig,
+  tokens: GrantTokens,
+  tokenTypeHint: TokenTypeHint
+): Promise<RevocationReport> {
+  const token =
+    tokenTypeHint === "refresh_token"
+      ? tokens.refreshToken
+      : tokens.accessToken;
+  if (!token) {
+    throw new OAuthError(
+      "invalid_request",
+      `No ${tokenTypeHint === "refresh_token" ? "refresh" : "access"} token to revoke`
+    );
+  }
+
+  await revokeToken(provider, token, tokenTypeHint);
+  await forgetIntrospection(provider, token);
+
+  const checks: RevocationCheck[] = [];
+  if (tokenTypeHint === "refresh_token") {
+    checks.push(
+      await checkInactive(
+        provider,
+        "Refresh token introspection",
+        token,
+        "refresh_token"
+      ),
+      await checkRefreshRefused(provider, token, tokens.dpopJkt)
+    );
+    // RFC 7009 section 2.1: revoking a refresh token should also revoke the
+    // access tokens of the same grant
+    if (tokens.accessToken) {
+      checks.push(
+        await checkInactive(
+          provider,
+          "Access token of the same grant",
+          tokens.accessToken,
+          "access_token"
+        )
+      );
+    }
+  } else {
+    checks.push(
+      await checkInactive(
+        provider,
+        "Access token introspection",
+        token,
+        "access_token"
+      )
+    );
+    // The provider may keep the refresh token alive; report either way
+    if (tokens.refreshToken) {
+      checks.push(
+        await checkInactive(
+          provider,
+          "Refresh token of the same grant",
+          tokens.refreshToken,
+          "refresh_token",
+          { mayBeActive: true }
+        )
+      );
+    }
+  }
+
+  return {
+    revoked: tokenTypeHint,
+    checks,
+    confirmed:
+      checks.some((check) => check.status === "passed") &&
+      !checks.some((check) => check.status === "failed"),
+  };
+}
@@ -0,0 +1,202 @@
+import { resolveEndpoint } from "@/lib/oidc/discovery";
+import { dpopFetch, isDpopTokenType } from "@/lib/oidc/dpop";
+import { OAuthError } from "@/lib/oidc/errors";
+import { decodeJwt } from "@/lib/oidc/jwt";
+import {
+  getDefaultProvider,
+  getProvider,
+  ProviderConfig,
+} from "@/lib/oidc/providers";
+import { getServerDpopKey, postForm, TokenResponse } from "./client";
+
+// Machine-to-machine access tokens from the client credentials grant (RFC
+// 6749 section 4.4), for route handlers that call downstream APIs as this
+// app rather than as a user. Tokens are cached per provider, scopes and
+// resource until shortly before they expire.
+//
+//   const response = await fetchWithServiceToken(
+//     "https://api.example.com/reports",
+//     { method: "GET" },
+//     { scopes: ["reports:read"], resource: "https://api.example.com" }
+//   );
+//
+// Server-only.
+
+// Fetch a new token this long before the cached one expires
+const EXPIRY_BUFFER_MS = 60_000;
+
+export interface ServiceTokenOptions {
+  // Registry id of the provider whose client asks for the token. Defaults to
+  // OIDC_SERVICE_PROVIDER, then to the default provider.
+  provider?: string;
+  // Skip the cache, e.g. after the downstream API rejected the cached token
+  forceRefresh?: boolean;
+}
+
+export interface ServiceToken {
+  accessToken: string;
+  tokenType: string;
+  // Scope granted, when the provider says
+  scope?: string;
+  // Epoch milliseconds
+  expiresAt?: number;
+  provider: string;
+  // Served from the cache rather than requested
+  cached: boolean;
+}
+
+// What the test client is shown of a service token. The token itself is
+// shared by every route handler, so it never leaves the server.
+export interface ServiceTokenSummary extends Omit<ServiceToken, "accessToken"> {
+  // aud of a JWT access token; opaque tokens only the provider can read
+  audience: string;
+}
+
+export function summarizeServiceToken({
+  accessToken,
+  ...token
+}: ServiceToken): ServiceTokenSummary {
+  let audience = "opaque token";
+  try {
+    const { aud } = decodeJwt(accessToken).payload;
+    audience = Array.isArray(aud) ? aud.join(", ") : String(aud ?? "none");
+  } catch {
+    // Opaque access token
+  }
+  return { ...token, audience };
+}
+
+const serviceTokens = new Map<string, ServiceToken>();
+// Requests in flight, so concurrent callers share one token request
+const pending = new Map<string, Promise<ServiceToken>>();
+
+function resolveProvider(id?: string) {
+  const providerId = id ?? process.env.OIDC_SERVICE_PROVIDER;
+  return providerId ? getProvider(providerId) : getDefaultProvider();
+}
+
+// Scope order does not matter to the provider, so it does not split the cache
+function cacheKey(provider: ProviderConfig, scopes: string[], resource = "") {
+  return [provider.id, [...new Set(scopes)].sort().join(" "), resource].join(
+    "|"
+  );
+}
+
+function isFresh(token: ServiceToken) {
+  return (
+    token.expiresAt !== undefined &&
+    token.expiresAt - EXPIRY_BUFFER_MS > Date.now()
+  );
+}
+
+async function requestServiceToken(
+  provider: ProviderConfig,
+  scopes: string[],
+  resource?: string
+): Promise<ServiceToken> {
+  const tokenEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "token_endpoint"
+  );
+  const params: Record<string, string> = { grant_type: "client_credentials" };
+  if (scopes.length > 0) params.scope = [...new Set(scopes)].join(" ");
+  if (resource) params.resource = resource;
+
+  const response = await postForm(provider, tokenEndpoint, params, {
+    dpop: provider.useDpop,
+  });
+  const tokenData: TokenResponse = await response.json();
+  return {
+    accessToken: tokenData.access_token,
+    tokenType: tokenData.token_type,
+    scope: tokenData.scope,
+    expiresAt: tokenData.expires_in
+      ? Date.now() + tokenData.expires_in * 1000
+      : undefined,
+    provider: provider.id,
+    cached: false,
+  };
+}
+
+// Access token for this app itself, for the given scopes and, optionally,
+// one API (RFC 8707). Tokens without expires_in are not cached.
+export async function getServiceToken(
+  scopes: string[] = [],
+  resource?: string,
+  { provider: providerId, forceRefresh = false }: ServiceTokenOptions = {}
+): Promise<ServiceToken> {
+  const provider = resolveProvider(providerId);
+  if (provider.tokenEndpointAuthMethod === "none") {
+    throw new OAuthError(
+      "invalid_client",
+      `The client credentials grant requires client authentication, but ${provider.id} is a public client`,
+      400
+    );
+  }
+
+  const key = cacheKey(provider, scopes, resource);
+  const cached = serviceTokens.get(key);
+  if (!forceRefresh && cached && isFresh(cached)) {
+    return { ...cached, cached: true };
+  }
+
+  let request = pending.get(key);
+  if (!request) {
+    request = requestServiceToken(provider, scopes, resource)
+      .then((token) => {
+        for (const [cachedKey, entry] of serviceTokens) {
+          if (!isFresh(entry)) serviceTokens.delete(cachedKey);
+        }
+        if (token.expiresAt) serviceTokens.set(key, token);
+        else serviceTokens.delete(key);
+        return token;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+// Drops the cached token, e.g. when it was revoked
+export function forgetServiceToken(
+  scopes: string[] = [],
+  resource?: string,
+  providerId?: string
+) {
+  serviceTokens.delete(cacheKey(resolveProvider(providerId), scopes, resource));
+}
+
+export interface ServiceFetchOptions extends ServiceTokenOptions {
+  scopes?: string[];
+  resource?: string;
+}
+
+// fetch with a service token, as Bearer or, for DPoP providers, with a proof
+// from the server's DPoP key. A 401 is retried once with a new token, in case
+// the cached one was revoked.
+export async function fetchWithServiceToken(
+  url: string,
+  init: RequestInit = {},
+  { scopes = [], resource, ...options }: ServiceFetchOptions = {}
+): Promise<Response> {
+  const send = async (forceRefresh: boolean) => {
+    const token = await getServiceToken(scopes, resource, {
+      ...options,
+      forceRefresh,
+    });
+    if (isDpopTokenType(token.tokenType)) {
+      return dpopFetch(await getServerDpopKey(), url, init, {
+        accessToken: token.accessToken,
+      });
+    }
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${token.accessToken}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const response = await send(options.forceRefresh ?? false);
+  if (response.status === 401) {
+    return send(true);
+  }
+  return response;
+}
@@ -0,0 +1,178 @@
+import type { NextRequest, NextResponse } from "next/server";
+import type { JwtPayload } from "@/lib/oidc/jwt";
+import { indexSession, unindexSession } from "@/lib/oidc/session-index";
+
+// Server-side session store for the Backend-for-Frontend (BFF) mode.
+// Tokens never leave the server: the browser only holds an opaque,
+// HttpOnly session id cookie that points into this store.
+
+export interface BffTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  tokenType: string;
+  scope?: string;
+  // Epoch milliseconds, if the provider returned expires_in
+  expiresAt?: number;
+}
+
+export interface BffSession {
+  id: string;
+  // Registry id of the provider that issued the tokens
+  providerId: string;
+  tokens: BffTokens;
+  // Verified ID token claims
+  claims: JwtPayload;
+  createdAt: number;
+}
+
+// Pending authorization request, keyed by a separate short-lived cookie
+export interface BffTransaction {
+  id: string;
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  createdAt: number;
+}
+
+export const SESSION_COOKIE = "bff_session";
+export const TRANSACTION_COOKIE = "bff_tx";
+
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const TRANSACTION_TTL_MS = 10 * 60 * 1000;
+
+// Keep the stores on globalThis so they survive hot reloads in development
+const globalForBff = globalThis as unknown as {
+  bffSessions?: Map<string, BffSession>;
+  bffTransactions?: Map<string, BffTransaction>;
+};
+
+const sessions = (globalForBff.bffSessions ??= new Map());
+const transactions = (globalForBff.bffTransactions ??= new Map());
+
+function createId(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function cookieOptions(maxAgeMs: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: Math.floor(maxAgeMs / 1000),
+  };
+}
+
+// Transactions
+
+export function createTransaction(
+  values: Omit<BffTransaction, "id" | "createdAt">,
+  response: NextResponse
+): BffTransaction {
+  const transaction = { ...values, id: createId(), createdAt: Date.now() };
+  transactions.set(transaction.id, transaction);
+  response.cookies.set(
+    TRANSACTION_COOKIE,
+    transaction.id,
+    cookieOptions(TRANSACTION_TTL_MS)
+  );
+  return transaction;
+}
+
+// Transactions are single-use: the entry and its cookie are removed on read
+export function consumeTransaction(
+  request: NextRequest,
+  response: NextResponse
+): BffTransaction | null {
+  const id = request.cookies.get(TRANSACTION_COOKIE)?.value;
+  response.cookies.delete(TRANSACTION_COOKIE);
+  if (!id) return null;
+
+  const transaction = transactions.get(id);
+  transactions.delete(id);
+
+  if (!transaction || Date.now() - transaction.createdAt > TRANSACTION_TTL_MS) {
+    return null;
+  }
+  return transaction;
+}
+
+// Sessions
+
+export function createSession(
+  values: Omit<BffSession, "id" | "createdAt">,
+  response: NextResponse
+): BffSession {
+  const session = { ...values, id: createId(), createdAt: Date.now() };
+  sessions.set(session.id, session);
+  // Lets a back-channel logout for this provider session find it
+  indexSession(session.id, {
+    providerId: session.providerId,
+    sub: session.claims.sub as string,
+    sid: session.claims.sid as string | undefined,
+  });
+  response.cookies.set(
+    SESSION_COOKIE,
+    session.id,
+    cookieOptions(SESSION_TTL_MS)
+  );
+  return session;
+}
+
+export function getSession(request: NextRequest): BffSession | null {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!id) return null;
+
+  const session = sessions.get(id);
+  if (!session) return null;
+
+  if (Date.now() - session.createdAt > SESSION_TTL_MS) {
+    sessions.delete(id);
+    unindexSession(id);
+    return null;
+  }
+  return session;
+}
+
+export function updateSessionTokens(session: BffSession, tokens: BffTokens) {
+  session.tokens = tokens;
+  sessions.set(session.id, session);
+}
+
+export function destroySession(request: NextRequest, response: NextResponse) {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (id) {
+    sessions.delete(id);
+    unindexSession(id);
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+// Ends sessions without their cookie, e.g. on back-channel logout. The
+// browser's stale cookie then no longer resolves to a session.
+export function deleteSessions(ids: string[]) {
+  for (const id of ids) {
+    sessions.delete(id);
+    unindexSession(id);
+  }
+}
+
+// What the browser is allowed to see about a session: no token values
+export function toSessionSummary(session: BffSession | null) {
+  if (!session) return { authenticated: false as const };
+
+  return {
+    authenticated: true as const,
+    providerId: session.providerId,
+    claims: session.claims,
+    scope: session.tokens.scope,
+    tokenType: session.tokens.tokenType,
+    accessTokenExpiresAt: session.tokens.expiresAt,
+    hasRefreshToken: Boolean(session.tokens.refreshToken),
+    hasIdToken: Boolean(session.tokens.idToken),
+  };
+}
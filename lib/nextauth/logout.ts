@@ -0,0 +1,50 @@
+import type { NextRequest, NextResponse } from "next/server";
+
+// Holds the state sent to the end_session_endpoint until the provider
+// redirects back to /api/auth/post-logout
+export const LOGOUT_STATE_COOKIE = "nextauth_logout_state";
+const LOGOUT_STATE_TTL_MS = 10 * 60 * 1000;
+
+// NextAuth's session cookie, with the __Secure- prefix on https and split
+// into .0, .1, ... chunks when the JWT is large
+const SESSION_COOKIE_NAMES = [
+  "next-auth.session-token",
+  "__Secure-next-auth.session-token",
+];
+
+export function setLogoutState(response: NextResponse, state: string) {
+  response.cookies.set(LOGOUT_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/api/auth/post-logout",
+    maxAge: Math.floor(LOGOUT_STATE_TTL_MS / 1000),
+  });
+}
+
+export function clearLogoutState(response: NextResponse) {
+  response.cookies.set(LOGOUT_STATE_COOKIE, "", {
+    path: "/api/auth/post-logout",
+    maxAge: 0,
+  });
+}
+
+// Ends the local NextAuth session, like signOut() does
+export function clearSessionCookies(
+  request: NextRequest,
+  response: NextResponse
+) {
+  for (const { name } of request.cookies.getAll()) {
+    if (
+      SESSION_COOKIE_NAMES.some(
+        (cookie) => name === cookie || name.startsWith(`${cookie}.`)
+      )
+    ) {
+      response.cookies.set(name, "", {
+        path: "/",
+        maxAge: 0,
+        secure: name.startsWith("__Secure-"),
+      });
+    }
+  }
+}
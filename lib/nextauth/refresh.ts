@@ -0,0 +1,241 @@
+import type { JWT } from "next-auth/jwt";
+import { refreshTokens } from "@/lib/bff/client";
+import { verifyIdToken } from "@/lib/oidc/id-token";
+import { OAuthError } from "@/lib/oidc/errors";
+import { decodeJwt } from "@/lib/oidc/jwt";
+import { getProvider } from "@/lib/oidc/providers";
+
+// Refresh this long before the access token expires, so a token handed to
+// the client is still valid when it reaches the resource server
+export const REFRESH_BUFFER_MS = 60_000;
+
+// Requests that carried the pre-rotation session cookie and arrive just after
+// a refresh get the same result instead of spending the old refresh token
+const ROTATION_GRACE_MS = 30_000;
+
+export const REFRESH_ERROR = "RefreshAccessTokenError";
+
+// Access token for another API (RFC 8707), obtained with the refresh token
+export interface ResourceToken {
+  accessToken: string;
+  tokenType?: string;
+  scope?: string;
+  // Epoch milliseconds, when known
+  expiresAt?: number;
+}
+
+interface RefreshEntry {
+  operation: string;
+  promise: Promise<JWT>;
+  settledAt?: number;
+}
+
+// In-flight and recently settled refreshes, keyed by the refresh token they
+// spend. Kept on globalThis so dev-mode reloads share it.
+const globalForRefresh = globalThis as unknown as {
+  nextAuthRefreshes?: Map<string, RefreshEntry>;
+};
+const refreshes = (globalForRefresh.nextAuthRefreshes ??= new Map());
+
+// Absolute access token expiry in ms. Falls back to the token's exp claim when
+// the provider didn't send expires_in; undefined when it can't be known.
+export function getAccessTokenExpiry(
+  accessToken: string | undefined,
+  expiresAt: number | undefined
+): number | undefined {
+  if (expiresAt) return expiresAt * 1000;
+  if (!accessToken) return undefined;
+
+  try {
+    const { payload } = decodeJwt(accessToken);
+    return typeof payload.exp === "number" ? payload.exp * 1000 : undefined;
+  } catch {
+    // Opaque access token without expires_in
+    return undefined;
+  }
+}
+
+export function shouldRefresh(token: JWT): boolean {
+  // Tokens with an unknown expiry are used until the provider rejects them
+  if (!token.refreshToken || !token.accessTokenExpires) return false;
+  return Date.now() >= token.accessTokenExpires - REFRESH_BUFFER_MS;
+}
+
+// Provider that issued the session's tokens, as recorded at sign-in
+function getTokenProvider(token: JWT) {
+  if (!token.provider) {
+    throw new Error("The session does not record the provider of its tokens");
+  }
+  return getProvider(token.provider);
+}
+
+async function performRefresh(token: JWT): Promise<JWT> {
+  try {
+    const config = getTokenProvider(token);
+    const refreshed = await refreshTokens(config, token.refreshToken!);
+
+    // A new ID token must be verified like the one from sign-in
+    if (refreshed.id_token) {
+      await verifyIdToken(refreshed.id_token, {
+        issuer: config.issuer,
+        clientId: config.clientId,
+        accessToken: refreshed.access_token,
+      });
+    }
+
+    return {
+      ...token,
+      accessToken: refreshed.access_token,
+      tokenType: refreshed.token_type,
+      accessTokenExpires: refreshed.expires_in
+        ? Date.now() + refreshed.expires_in * 1000
+        : getAccessTokenExpiry(refreshed.access_token, undefined),
+      // Providers that don't rotate refresh tokens omit it
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      idToken: refreshed.id_token ?? token.idToken,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error);
+    return refreshFailed(token, error);
+  }
+}
+
+function refreshFailed(token: JWT, error: unknown): JWT {
+  // The grant is gone (expired, revoked or reused); retrying can't succeed
+  const grantRevoked =
+    error instanceof OAuthError && error.error === "invalid_grant";
+
+  return {
+    ...token,
+    refreshToken: grantRevoked ? undefined : token.refreshToken,
+    error: REFRESH_ERROR,
+  };
+}
+
+async function performResourceRefresh(
+  token: JWT,
+  resource: string,
+  scope?: string
+): Promise<JWT> {
+  try {
+    const refreshed = await refreshTokens(
+      getTokenProvider(token),
+      token.refreshToken!,
+      { resource, scope }
+    );
+    return {
+      ...token,
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      resourceTokens: {
+        ...token.resourceTokens,
+        [resource]: {
+          accessToken: refreshed.access_token,
+          tokenType: refreshed.token_type,
+          scope: refreshed.scope ?? scope,
+          expiresAt: refreshed.expires_in
+            ? Date.now() + refreshed.expires_in * 1000
+            : getAccessTokenExpiry(refreshed.access_token, undefined),
+        },
+      },
+      resourceTokenError: undefined,
+    };
+  } catch (error) {
+    console.error(`Error getting an access token for ${resource}:`, error);
+    // e.g. invalid_target: the resource is not part of the grant. The
+    // session itself is still fine.
+    if (!(error instanceof OAuthError) || error.error !== "invalid_grant") {
+      return {
+        ...token,
+        resourceTokenError:
+          error instanceof Error ? error.message : String(error),
+      };
+    }
+    return refreshFailed(token, error);
+  }
+}
+
+// Runs a refresh token request. Concurrent requests for the same session
+// share one token request, so a rotating refresh token is only spent once.
+// operation names what the request is for; a different operation on the same
+// refresh token waits for the running one and continues from its result.
+function shareRefresh(
+  token: JWT,
+  operation: string,
+  perform: (token: JWT) => Promise<JWT>
+): Promise<JWT> {
+  const refreshToken = token.refreshToken!;
+  const now = Date.now();
+
+  for (const [key, entry] of refreshes) {
+    if (entry.settledAt && now - entry.settledAt > ROTATION_GRACE_MS) {
+      refreshes.delete(key);
+    }
+  }
+
+  const existing = refreshes.get(refreshToken);
+  if (existing?.operation === operation) {
+    return existing.promise;
+  }
+  if (existing) {
+    return existing.promise.then((next: JWT) => {
+      if (!next.refreshToken) return next;
+      // Rotated: go through the new token's entry. Otherwise the token is
+      // still good to spend.
+      return next.refreshToken !== refreshToken
+        ? shareRefresh(next, operation, perform)
+        : perform(next);
+    });
+  }
+
+  const entry: RefreshEntry = {
+    operation,
+    promise: perform(token).finally(() => {
+      entry.settledAt = Date.now();
+    }),
+  };
+  refreshes.set(refreshToken, entry);
+
+  return entry.promise;
+}
+
+// Refreshes the session's tokens
+export function refreshAccessToken(token: JWT): Promise<JWT> {
+  return shareRefresh(token, "refresh", performRefresh);
+}
+
+// An access token for resource, downscoped to scope when given. A cached one
+// is reused until shortly before it expires; expired ones are dropped.
+export async function getResourceToken(
+  token: JWT,
+  resource: string,
+  scope?: string
+): Promise<JWT> {
+  const now = Date.now();
+  const resourceTokens = Object.fromEntries(
+    Object.entries(token.resourceTokens ?? {}).filter(
+      ([, cached]) => !cached.expiresAt || cached.expiresAt > now
+    )
+  );
+  const cached = resourceTokens[resource];
+  if (
+    cached &&
+    (!scope || cached.scope === scope) &&
+    (!cached.expiresAt || cached.expiresAt - REFRESH_BUFFER_MS > now)
+  ) {
+    return { ...token, resourceTokens, resourceTokenError: undefined };
+  }
+
+  if (!token.refreshToken) {
+    return {
+      ...token,
+      resourceTokens,
+      resourceTokenError: `No refresh token to request an access token for ${resource}`,
+    };
+  }
+  return shareRefresh(
+    { ...token, resourceTokens },
+    `resource ${resource} ${scope ?? ""}`,
+    (current) => performResourceRefresh(current, resource, scope)
+  );
+}
@@ -0,0 +1,413 @@
+import type { TokenTypeHint } from "@/lib/bff/client";
+import { resolveEndpoint } from "./discovery";
+import { dpopFetch, isDpopTokenType } from "./dpop";
+import { loadDpopKey } from "./dpop-key-store";
+import { OAuthError } from "./errors";
+import { verifyIdToken } from "./id-token";
+import { decodeJwt } from "./jwt";
+import { generateRandomString, sha256 } from "./pkce";
+import type { PublicProviderConfig } from "./providers";
+import type { StoredTokens } from "./token-store";
+
+// Browser side of the authorization code flow with PKCE, shared by the
+// redirect flow (/auth/callback) and the framed flows (silent auth, popup)
+
+export interface AuthRequest {
+  // null when /api/par or /api/jar generated them: they stay on the server
+  // until the callback redeems them (serverTransaction)
+  codeVerifier: string | null;
+  state: string | null;
+  nonce: string | null;
+  provider: PublicProviderConfig;
+  serverTransaction: boolean;
+}
+
+export interface AuthRequestOptions {
+  // Push the parameters (RFC 9126) / send them as a signed request object
+  // (RFC 9101). Default to the provider's usePar / useJar.
+  par?: boolean;
+  jar?: boolean;
+}
+
+// A request read back from storage; any part may be missing
+export type PendingAuthRequest = {
+  [K in keyof AuthRequest]: AuthRequest[K] | null;
+};
+
+// Thrown by the callback checks so each failure gets its own error screen
+export class CallbackValidationError extends Error {
+  constructor(
+    public title: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "CallbackValidationError";
+  }
+}
+
+// prompt=none errors meaning the user has to interact with the provider; not
+// failures of the client
+const INTERACTION_REQUIRED_ERRORS: Record<string, string> = {
+  login_required: "You are not signed in at the identity provider.",
+  consent_required: "The identity provider needs your consent first.",
+  interaction_required:
+    "The identity provider needs you to sign in interactively.",
+  account_selection_required:
+    "The identity provider needs you to choose an account.",
+};
+
+// Explanation for an interaction-required error, or null for other errors
+export function describeInteractionRequired(err: unknown): string | null {
+  if (!(err instanceof OAuthError)) return null;
+  return INTERACTION_REQUIRED_ERRORS[err.error] ?? null;
+}
+
+// Generates PKCE, state and nonce and builds the authorization URL.
+// extraParams are added to the request, e.g. { prompt: "none" }. With par or
+// jar the URL points at /api/par or /api/jar, which generate PKCE, state and
+// nonce themselves, push or sign the parameters with the client's
+// credentials and redirect on to the provider.
+export async function createAuthRequest(
+  provider: PublicProviderConfig,
+  extraParams: Record<string, string> = {},
+  {
+    par = provider.usePar ?? false,
+    jar = provider.useJar ?? false,
+  }: AuthRequestOptions = {}
+): Promise<{ request: AuthRequest; url: string }> {
+  const params = new URLSearchParams({
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scopes.join(" "),
+    response_type: "code",
+    ...extraParams,
+  });
+  // The APIs the grant should cover (RFC 8707); tokens for them are fetched
+  // later with the refresh token
+  for (const resource of provider.resources) {
+    params.append("resource", resource);
+  }
+  // Binds the authorization code to this browser's DPoP key
+  if (provider.useDpop) {
+    params.set("dpop_jkt", (await loadDpopKey(provider.id)).jkt);
+  }
+
+  if (par || jar) {
+    params.set("provider", provider.id);
+    params.set("par", String(par));
+    params.set("jar", String(jar));
+    return {
+      request: {
+        codeVerifier: null,
+        state: null,
+        nonce: null,
+        provider,
+        serverTransaction: true,
+      },
+      url: `/api/${jar ? "jar" : "par"}?${params.toString()}`,
+    };
+  }
+
+  const codeVerifier = generateRandomString(128);
+  // state protects the callback against CSRF, nonce binds the ID token
+  // to this authorization request
+  const state = generateRandomString(32);
+  const nonce = generateRandomString(32);
+  params.set("code_challenge", await sha256(codeVerifier));
+  params.set("code_challenge_method", "S256");
+  params.set("state", state);
+  params.set("nonce", nonce);
+
+  const authorizationEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "authorization_endpoint",
+    { proxyPath: provider.proxyPath }
+  );
+
+  return {
+    request: { codeVerifier, state, nonce, provider, serverTransaction: false },
+    url: `${authorizationEndpoint}?${params.toString()}`,
+  };
+}
+
+// POST to the provider's token endpoint through the same-origin proxy, with a
+// DPoP proof when the provider uses DPoP
+export async function requestTokens(
+  provider: PublicProviderConfig,
+  params: Record<string, string>
+): Promise<Response> {
+  const init = {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params).toString(),
+  };
+  const tokenEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "token_endpoint",
+    { proxyPath: provider.proxyPath }
+  );
+  if (!provider.useDpop) return fetch(tokenEndpoint, init);
+
+  // The proof names the provider's own URL, not the proxied one
+  return dpopFetch(await loadDpopKey(provider.id), tokenEndpoint, init, {
+    htu: await resolveEndpoint(provider.issuer, "token_endpoint"),
+  });
+}
+
+// Revocation (RFC 7009) as the public client, through the same-origin proxy
+export async function revokeAsPublicClient(
+  provider: PublicProviderConfig,
+  token: string,
+  tokenTypeHint: TokenTypeHint
+) {
+  const revocationEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "revocation_endpoint",
+    { proxyPath: provider.proxyPath }
+  );
+  const response = await fetch(revocationEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      token,
+      token_type_hint: tokenTypeHint,
+      client_id: provider.clientId,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new OAuthError(
+      errorData.error || "revocation_failed",
+      errorData.error_description || "Token revocation failed",
+      response.status
+    );
+  }
+}
+
+// Resource request with the access token: a DPoP proof and
+// "Authorization: DPoP" for DPoP-bound tokens, a plain Bearer header
+// otherwise. htu is the URL the resource server sees, when url is proxied.
+export async function fetchWithAccessToken(
+  provider: PublicProviderConfig,
+  tokens: Pick<StoredTokens, "access_token" | "token_type">,
+  url: string,
+  { htu = url, ...init }: RequestInit & { htu?: string } = {}
+): Promise<Response> {
+  if (!isDpopTokenType(tokens.token_type)) {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${tokens.access_token}`);
+    return fetch(url, { ...init, headers });
+  }
+  return dpopFetch(await loadDpopKey(provider.id), url, init, {
+    accessToken: tokens.access_token,
+    htu: new URL(htu, window.location.href).toString(),
+  });
+}
+
+// Keeps the request for /auth/callback across the full-page redirect
+export function storeAuthRequest(request: AuthRequest) {
+  if (request.serverTransaction) {
+    sessionStorage.setItem("oidc_server_transaction", "true");
+  } else {
+    sessionStorage.setItem("code_verifier", request.codeVerifier ?? "");
+    sessionStorage.setItem("oauth_state", request.state ?? "");
+    sessionStorage.setItem("oauth_nonce", request.nonce ?? "");
+  }
+  // The callback page needs the provider that handles this request
+  sessionStorage.setItem("oidc_provider", JSON.stringify(request.provider));
+}
+
+// Values stored by storeAuthRequest are single-use: read them once and clear
+// them
+export function consumeAuthRequest(): PendingAuthRequest {
+  const request = {
+    codeVerifier: sessionStorage.getItem("code_verifier"),
+    state: sessionStorage.getItem("oauth_state"),
+    nonce: sessionStorage.getItem("oauth_nonce"),
+    provider: JSON.parse(
+      sessionStorage.getItem("oidc_provider") ?? "null"
+    ) as PublicProviderConfig | null,
+    serverTransaction:
+      sessionStorage.getItem("oidc_server_transaction") === "true",
+  };
+
+  sessionStorage.removeItem("oidc_server_transaction");
+  sessionStorage.removeItem("code_verifier");
+  sessionStorage.removeItem("oauth_state");
+  sessionStorage.removeItem("oauth_nonce");
+  sessionStorage.removeItem("oidc_provider");
+
+  return request;
+}
+
+function validateState(
+  returnedState: string | null,
+  expectedState: string | null
+) {
+  if (!expectedState) {
+    throw new CallbackValidationError(
+      "No Pending Login",
+      "No authorization request is in progress in this browser tab. Please start the auth flow from the home page."
+    );
+  }
+
+  if (!returnedState) {
+    throw new CallbackValidationError(
+      "Missing State",
+      "The authorization response did not include a state parameter. The callback was rejected to prevent CSRF."
+    );
+  }
+
+  if (returnedState !== expectedState) {
+    throw new CallbackValidationError(
+      "State Mismatch",
+      "The state returned by the provider does not match the one sent with the authorization request. The callback was rejected to prevent CSRF."
+    );
+  }
+}
+
+function validateNonce(
+  idToken: string | undefined,
+  expectedNonce: string | null
+) {
+  if (!idToken) {
+    throw new CallbackValidationError(
+      "Missing ID Token",
+      "The token response did not include an ID token, so the nonce could not be verified."
+    );
+  }
+
+  let nonce: unknown;
+  try {
+    nonce = decodeJwt(idToken).payload.nonce;
+  } catch (err) {
+    throw new CallbackValidationError(
+      "Invalid ID Token",
+      err instanceof Error ? err.message : "The ID token could not be decoded."
+    );
+  }
+
+  if (!nonce) {
+    throw new CallbackValidationError(
+      "Missing Nonce",
+      "The ID token does not contain a nonce claim."
+    );
+  }
+
+  if (nonce !== expectedNonce) {
+    throw new CallbackValidationError(
+      "Nonce Mismatch",
+      "The nonce in the ID token does not match the one sent with the authorization request. The tokens were discarded to prevent replay."
+    );
+  }
+}
+
+// State, nonce and PKCE verifier of a request started through /api/par or
+// /api/jar. The server only hands them to the browser that started it.
+async function redeemServerTransaction(
+  returnedState: string | null,
+  request: PendingAuthRequest
+): Promise<PendingAuthRequest> {
+  if (!returnedState) return request;
+
+  const response = await fetch("/api/authorization-transaction", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ state: returnedState }),
+  });
+  const transaction = response.ok ? await response.json() : null;
+  if (!transaction || transaction.providerId !== request.provider?.id) {
+    throw new CallbackValidationError(
+      "State Mismatch",
+      "No authorization request with the returned state was started in this browser. The callback was rejected to prevent CSRF."
+    );
+  }
+  return {
+    ...request,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    codeVerifier: transaction.codeVerifier,
+  };
+}
+
+// Validates an authorization response against the request that started it,
+// exchanges the code and verifies the ID token. Provider error responses are
+// thrown as OAuthError so callers can react to e.g. login_required.
+export async function completeAuthorization(
+  response: URLSearchParams,
+  pendingRequest: PendingAuthRequest
+): Promise<StoredTokens> {
+  const request = pendingRequest.serverTransaction
+    ? await redeemServerTransaction(response.get("state"), pendingRequest)
+    : pendingRequest;
+
+  // Reject responses that were not triggered by this client, including
+  // error responses
+  validateState(response.get("state"), request.state);
+
+  const errorParam = response.get("error");
+  if (errorParam) {
+    throw new OAuthError(
+      errorParam,
+      response.get("error_description") ?? undefined
+    );
+  }
+
+  const code = response.get("code");
+  if (!code) {
+    throw new CallbackValidationError(
+      "Authentication Error",
+      "Authorization code missing"
+    );
+  }
+
+  const { codeVerifier, nonce, provider } = request;
+  if (!codeVerifier || !provider) {
+    throw new Error(
+      "Code verifier not found. Please start the auth flow from the home page."
+    );
+  }
+
+  const tokenResponse = await requestTokens(provider, {
+    grant_type: "authorization_code",
+    code: code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+  });
+
+  if (!tokenResponse.ok) {
+    const errorData = await tokenResponse.json();
+    throw new Error(errorData.error_description || "Token exchange failed");
+  }
+
+  const tokenData = await tokenResponse.json();
+
+  // Only accept tokens issued for this authorization request
+  validateNonce(tokenData.id_token, nonce);
+
+  // Verify the ID token signature and claims against the provider's JWKS
+  try {
+    await verifyIdToken(tokenData.id_token, {
+      issuer: provider.issuer,
+      clientId: provider.clientId,
+      nonce,
+      accessToken: tokenData.access_token,
+      code,
+      proxyPath: provider.proxyPath,
+    });
+  } catch (err) {
+    throw new CallbackValidationError(
+      "ID Token Verification Failed",
+      err instanceof Error ? err.message : "The ID token is invalid."
+    );
+  }
+
+  // session_state comes with the authorization response, not the token
+  // response; session management needs it (OIDC Session Management 1.0)
+  const sessionState = response.get("session_state");
+  return sessionState
+    ? { ...tokenData, session_state: sessionState }
+    : tokenData;
+}
@@ -0,0 +1,51 @@
+import { deleteSessions } from "@/lib/bff/session";
+import { decodeJwt } from "./jwt";
+import type { JsonWebKeySet } from "./jwks";
+import {
+  LogoutTokenVerificationError,
+  verifyLogoutToken,
+} from "./logout-token";
+import { listProviders } from "./providers";
+import { recordLogout } from "./session-index";
+
+// Verifies a logout token from one of the registered providers and ends the
+// matching sessions: BFF sessions are deleted right away, NextAuth sessions
+// are rejected by the jwt callback on their next request.
+export async function handleLogoutToken(
+  logoutToken: string,
+  options: { jwks?: JsonWebKeySet } = {}
+) {
+  // The unverified iss/aud only pick the provider whose keys verify the token
+  let claims;
+  try {
+    claims = decodeJwt(logoutToken).payload;
+  } catch (err) {
+    throw new LogoutTokenVerificationError(
+      err instanceof Error ? err.message : "Malformed logout token"
+    );
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const provider = listProviders().find(
+    (p) => p.issuer === claims.iss && audiences.includes(p.clientId)
+  );
+  if (!provider) {
+    throw new LogoutTokenVerificationError(
+      `No registered client for issuer "${claims.iss}" and audience "${audiences.join(" ")}"`
+    );
+  }
+
+  const payload = await verifyLogoutToken(logoutToken, {
+    issuer: provider.issuer,
+    clientId: provider.clientId,
+    jwks: options.jwks,
+  });
+
+  const endedSessions = recordLogout({
+    providerId: provider.id,
+    sub: payload.sub,
+    sid: payload.sid as string | undefined,
+  });
+  deleteSessions(endedSessions);
+
+  return { providerId: provider.id, endedSessions: endedSessions.length };
+}
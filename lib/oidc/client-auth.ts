@@ -0,0 +1,80 @@
+import { signClientJwt } from "./client-keys";
+import { resolveEndpoint } from "./discovery";
+import { base64UrlEncode } from "./jwt";
+import type { ProviderConfig } from "./providers";
+
+// Client authentication for requests to the provider's token, PAR,
+// introspection and revocation endpoints, per the provider's
+// tokenEndpointAuthMethod. The JWT methods send a short-lived client assertion
+// (RFC 7523): HS256 with the client secret (client_secret_jwt) or signed with
+// the client's own key (private_key_jwt).
+//
+// Server-only.
+
+export const CLIENT_ASSERTION_TYPE =
+  "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+
+const ASSERTION_LIFETIME_S = 60;
+
+async function signHs256(payload: Record<string, unknown>, secret: string) {
+  const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${header}.${body}`)
+  );
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Client assertion for the JWT methods. The audience is the token endpoint,
+// which providers accept for all of their client-authenticated endpoints.
+async function createClientAssertion(provider: ProviderConfig) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iss: provider.clientId,
+    sub: provider.clientId,
+    aud: await resolveEndpoint(provider.issuer, "token_endpoint"),
+    iat: now,
+    exp: now + ASSERTION_LIFETIME_S,
+    jti: crypto.randomUUID(),
+  };
+
+  return provider.tokenEndpointAuthMethod === "client_secret_jwt"
+    ? signHs256(payload, provider.clientSecret!)
+    : signClientJwt(payload, provider.tokenEndpointAuthSigningAlg);
+}
+
+// Adds the provider's client authentication to a form POST. body must
+// already contain client_id.
+export async function authenticateClient(
+  provider: ProviderConfig,
+  headers: Record<string, string>,
+  body: URLSearchParams
+) {
+  switch (provider.tokenEndpointAuthMethod) {
+    case "client_secret_basic": {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret!)}`;
+      headers.Authorization = `Basic ${btoa(credentials)}`;
+      body.delete("client_id");
+      break;
+    }
+    case "client_secret_post":
+      body.set("client_secret", provider.clientSecret!);
+      break;
+    case "client_secret_jwt":
+    case "private_key_jwt":
+      body.set("client_assertion_type", CLIENT_ASSERTION_TYPE);
+      body.set("client_assertion", await createClientAssertion(provider));
+      break;
+    case "none":
+      break;
+  }
+}
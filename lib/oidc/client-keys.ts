@@ -0,0 +1,172 @@
+import { readFileSync } from "fs";
+import { JsonWebKeySet, jwkThumbprint, toPublicJwk } from "./jwks";
+import { base64UrlEncode } from "./jwt";
+import type { ClientSigningAlgorithm } from "./providers";
+
+// The app's own client key pairs, used to sign request objects and
+// private_key_jwt client assertions. The public halves are published at
+// /api/jwks for providers to verify against.
+//
+// Loaded from a private JWK set in OIDC_CLIENT_JWKS (JSON) or
+// OIDC_CLIENT_JWKS_FILE. Without one, development generates throwaway RS256
+// and ES256 keys that change on every restart.
+//
+// Server-only.
+
+export interface ClientKey {
+  kid: string;
+  alg: ClientSigningAlgorithm;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey & { kid: string; alg: string; use: string };
+}
+
+const ALGORITHM_PARAMS = {
+  RS256: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    generateParams: {
+      name: "RSASSA-PKCS1-v1_5",
+      hash: "SHA-256",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    signParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    generateParams: { name: "ECDSA", namedCurve: "P-256" },
+    signParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+const globalForKeys = globalThis as unknown as {
+  oidcClientKeys?: Promise<ClientKey[]>;
+};
+
+function algorithmOf(jwk: JsonWebKey): ClientSigningAlgorithm {
+  if (jwk.alg === "RS256" || jwk.alg === "ES256") return jwk.alg;
+  if (!jwk.alg && jwk.kty === "RSA") return "RS256";
+  if (!jwk.alg && jwk.kty === "EC" && jwk.crv === "P-256") return "ES256";
+  throw new Error(
+    `Unsupported client key algorithm "${jwk.alg ?? jwk.kty}"; use RS256 or ES256`
+  );
+}
+
+async function toClientKey(
+  privateJwk: JsonWebKey & { kid?: string }
+): Promise<ClientKey> {
+  if (!privateJwk.d) {
+    throw new Error("Client keys must be private JWKs");
+  }
+  const alg = algorithmOf(privateJwk);
+  const publicJwk = toPublicJwk(privateJwk);
+  // The JWK thumbprint serves as kid when a configured key has none
+  const kid = privateJwk.kid ?? (await jwkThumbprint(publicJwk));
+
+  // Like provider keys, import without alg/use/key_ops so they can't
+  // conflict with WebCrypto's own checks
+  const { kty, n, e, d, p, q, dp, dq, qi, crv, x, y } = privateJwk;
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    { kty, n, e, d, p, q, dp, dq, qi, crv, x, y },
+    ALGORITHM_PARAMS[alg].importParams,
+    false,
+    ["sign"]
+  );
+
+  return {
+    kid,
+    alg,
+    privateKey,
+    publicJwk: { ...publicJwk, kid, alg, use: "sig" },
+  };
+}
+
+function readConfiguredJwks(): JsonWebKeySet | undefined {
+  const source = process.env.OIDC_CLIENT_JWKS
+    ? "OIDC_CLIENT_JWKS"
+    : process.env.OIDC_CLIENT_JWKS_FILE;
+  if (!source) return undefined;
+
+  const raw = process.env.OIDC_CLIENT_JWKS ?? readFileSync(source, "utf8");
+  let jwks: JsonWebKeySet;
+  try {
+    jwks = JSON.parse(raw);
+  } catch {
+    throw new Error(`Client JWKS in ${source} is not valid JSON`);
+  }
+  if (!Array.isArray(jwks?.keys) || jwks.keys.length === 0) {
+    throw new Error(
+      `Client JWKS in ${source} must have a non-empty "keys" array`
+    );
+  }
+  return jwks;
+}
+
+async function generateKeys(): Promise<ClientKey[]> {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "No client keys configured. Set OIDC_CLIENT_JWKS or OIDC_CLIENT_JWKS_FILE."
+    );
+  }
+  console.warn(
+    "No client keys configured; generated throwaway RS256 and ES256 keys. Providers must refetch /api/jwks after every restart."
+  );
+
+  return Promise.all(
+    (["RS256", "ES256"] as const).map(async (alg) => {
+      const { privateKey } = (await crypto.subtle.generateKey(
+        ALGORITHM_PARAMS[alg].generateParams,
+        true,
+        ["sign", "verify"]
+      )) as CryptoKeyPair;
+      return toClientKey(await crypto.subtle.exportKey("jwk", privateKey));
+    })
+  );
+}
+
+function loadKeys(): Promise<ClientKey[]> {
+  if (!globalForKeys.oidcClientKeys) {
+    const configured = readConfiguredJwks();
+    globalForKeys.oidcClientKeys = configured
+      ? Promise.all(configured.keys.map(toClientKey))
+      : generateKeys();
+    // Let a failed load be retried after the configuration is fixed
+    globalForKeys.oidcClientKeys.catch(() => {
+      globalForKeys.oidcClientKeys = undefined;
+    });
+  }
+  return globalForKeys.oidcClientKeys;
+}
+
+// The first configured key for alg
+export async function getClientKey(
+  alg: ClientSigningAlgorithm
+): Promise<ClientKey> {
+  const key = (await loadKeys()).find((k) => k.alg === alg);
+  if (!key) {
+    throw new Error(`No ${alg} client key configured`);
+  }
+  return key;
+}
+
+// Public keys for /api/jwks
+export async function getClientJwks(): Promise<JsonWebKeySet> {
+  return { keys: (await loadKeys()).map((key) => key.publicJwk) };
+}
+
+// Signs a compact JWS with the client key for alg
+export async function signClientJwt(
+  payload: Record<string, unknown>,
+  alg: ClientSigningAlgorithm,
+  typ = "JWT"
+): Promise<string> {
+  const key = await getClientKey(alg);
+  const header = base64UrlEncode(JSON.stringify({ alg, typ, kid: key.kid }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = await crypto.subtle.sign(
+    ALGORITHM_PARAMS[alg].signParams,
+    key.privateKey,
+    new TextEncoder().encode(`${header}.${body}`)
+  );
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
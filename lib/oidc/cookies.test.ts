@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { rewriteSetCookie, toCookieHeader } from "./cookies";
+
+function rewrite(setCookie: string, fromPath?: string, toPath?: string) {
+  return rewriteSetCookie(setCookie, { secure: false, fromPath, toPath });
+}
+
+describe("rewriteSetCookie", () => {
+  it("moves the path under the proxy path", () => {
+    expect(rewrite("a=1; Path=/oidc/interaction/x", "/oidc", "/proxy")).toBe(
+      "a=1; Path=/proxy/interaction/x"
+    );
+    expect(rewrite("a=1; Path=/oidc", "/oidc", "/proxy")).toBe(
+      "a=1; Path=/proxy"
+    );
+  });
+
+  it("joins with a single slash for an issuer at the origin root", () => {
+    expect(rewrite("a=1; Path=/interaction/x", "/", "/oidc")).toBe(
+      "a=1; Path=/oidc/interaction/x"
+    );
+    expect(rewrite("a=1; Path=/", "/", "/oidc")).toBe("a=1; Path=/oidc");
+    expect(rewrite("a=1; Path=/interaction/x", "", "/oidc/")).toBe(
+      "a=1; Path=/oidc/interaction/x"
+    );
+  });
+
+  it("leaves paths outside the issuer path alone", () => {
+    expect(rewrite("a=1; Path=/oidcx/y", "/oidc", "/proxy")).toBe(
+      "a=1; Path=/oidcx/y"
+    );
+  });
+
+  it("drops Domain, and Secure and SameSite=None on plain http", () => {
+    expect(
+      rewrite("a=1; Domain=idp.example.com; Secure; SameSite=None; HttpOnly")
+    ).toBe("a=1; HttpOnly; SameSite=Lax");
+    expect(
+      rewriteSetCookie("a=1; Secure; SameSite=None", { secure: true })
+    ).toBe("a=1; Secure; SameSite=None");
+  });
+});
+
+describe("toCookieHeader", () => {
+  it("keeps only the name=value pairs", () => {
+    expect(toCookieHeader(["a=1; Path=/", "b=2=3; HttpOnly"])).toBe(
+      "a=1; b=2=3"
+    );
+  });
+});
@@ -0,0 +1,71 @@
+// Helpers for relaying provider cookies through this app's origin
+
+export interface CookieRewriteOptions {
+  // Whether the browser talks to this app over https
+  secure: boolean;
+  // Issuer path prefix (e.g. /oidc) and the proxy path it is served under
+  fromPath?: string;
+  toPath?: string;
+}
+
+// Moves a cookie path from under fromPath to under toPath, matching whole
+// segments: "/" covers every path, "/oidc" covers "/oidc/..." but not
+// "/oidcx". Returns null for paths outside fromPath.
+function movePath(path: string, fromPath: string, toPath: string) {
+  const from = fromPath.replace(/\/+$/, "");
+  if (from && path !== from && !path.startsWith(`${from}/`)) return null;
+
+  const rest = path.slice(from.length).replace(/^\/$/, "");
+  return `${toPath.replace(/\/+$/, "")}${rest}` || "/";
+}
+
+// Rewrites a single Set-Cookie header from the provider so the browser stores
+// it for this app's host: Domain is dropped (host-only cookie), Secure is
+// dropped on plain http, and Path is moved under the proxy path.
+export function rewriteSetCookie(
+  setCookie: string,
+  options: CookieRewriteOptions
+): string {
+  const [nameValue, ...attributes] = setCookie.split(";").map((s) => s.trim());
+  const rewritten: string[] = [nameValue];
+  let sameSiteNone = false;
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split("=");
+    const key = rawKey.toLowerCase();
+    const value = rest.join("=");
+
+    if (key === "domain") continue;
+    if (key === "secure" && !options.secure) continue;
+
+    if (key === "samesite" && value.toLowerCase() === "none") {
+      sameSiteNone = true;
+      continue;
+    }
+
+    const movedPath =
+      key === "path" &&
+      options.fromPath !== undefined &&
+      options.toPath !== undefined
+        ? movePath(value, options.fromPath, options.toPath)
+        : null;
+    if (movedPath) {
+      rewritten.push(`Path=${movedPath}`);
+      continue;
+    }
+
+    rewritten.push(attribute);
+  }
+
+  // Browsers reject SameSite=None without Secure
+  if (sameSiteNone) {
+    rewritten.push(options.secure ? "SameSite=None" : "SameSite=Lax");
+  }
+
+  return rewritten.join("; ");
+}
+
+// Turns Set-Cookie headers into a Cookie request header (name=value pairs)
+export function toCookieHeader(setCookies: string[]): string {
+  return setCookies.map((cookie) => cookie.split(";")[0].trim()).join("; ");
+}
@@ -0,0 +1,146 @@
+// OpenID Provider metadata (/.well-known/openid-configuration)
+
+export interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  introspection_endpoint?: string;
+  revocation_endpoint?: string;
+  end_session_endpoint?: string;
+  pushed_authorization_request_endpoint?: string;
+  check_session_iframe?: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  claims_supported?: string[];
+  response_types_supported?: string[];
+  grant_types_supported?: string[];
+  code_challenge_methods_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+  request_object_signing_alg_values_supported?: string[];
+  request_object_encryption_alg_values_supported?: string[];
+  introspection_signing_alg_values_supported?: string[];
+  frontchannel_logout_session_supported?: boolean;
+  [key: string]: unknown;
+}
+
+// Metadata entries that point at an endpoint, with the feature they enable
+const ENDPOINT_FEATURES = {
+  authorization_endpoint: "authorization",
+  token_endpoint: "token",
+  jwks_uri: "JWKS",
+  userinfo_endpoint: "UserInfo",
+  introspection_endpoint: "token introspection",
+  revocation_endpoint: "token revocation",
+  end_session_endpoint: "RP-initiated logout",
+  pushed_authorization_request_endpoint: "pushed authorization requests (PAR)",
+  check_session_iframe: "session management",
+  registration_endpoint: "dynamic client registration",
+} as const;
+
+export type EndpointName = keyof typeof ENDPOINT_FEATURES;
+
+export interface DiscoveryOptions {
+  // Same-origin path proxied to the issuer. Browser callers pass it so
+  // discovery and the resolved endpoints go through the proxy.
+  proxyPath?: string;
+}
+
+// Thrown when the provider does not advertise an endpoint we need
+export class UnsupportedFeatureError extends Error {
+  constructor(
+    public issuer: string,
+    public endpoint: EndpointName
+  ) {
+    super(
+      `${issuer} does not support ${ENDPOINT_FEATURES[endpoint]}: "${endpoint}" is not advertised in its discovery document`
+    );
+    this.name = "UnsupportedFeatureError";
+  }
+}
+
+const discoveryCache = new Map<string, Promise<DiscoveryDocument>>();
+
+function normalizeIssuer(issuer: string) {
+  return issuer.replace(/\/$/, "");
+}
+
+async function fetchDiscoveryDocument(
+  issuer: string,
+  options: DiscoveryOptions
+): Promise<DiscoveryDocument> {
+  const base = options.proxyPath ?? issuer;
+  const response = await fetch(`${base}/.well-known/openid-configuration`, {
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load discovery document for ${issuer} (HTTP ${response.status})`
+    );
+  }
+
+  const document: DiscoveryDocument = await response.json();
+
+  // OIDC Discovery 4.3: the advertised issuer must match exactly the issuer
+  // the metadata was requested for
+  if (normalizeIssuer(document.issuer ?? "") !== issuer) {
+    throw new Error(
+      `Discovery issuer mismatch: expected "${issuer}" but metadata advertises "${document.issuer}"`
+    );
+  }
+
+  for (const key of ["authorization_endpoint", "token_endpoint", "jwks_uri"]) {
+    if (typeof document[key] !== "string") {
+      throw new Error(`Discovery document for ${issuer} is missing ${key}`);
+    }
+  }
+
+  return document;
+}
+
+// Discovery metadata rarely changes, so it is cached per issuer for the
+// lifetime of the process (or browser tab). Failed lookups are not cached.
+export function getDiscoveryDocument(
+  issuer: string,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryDocument> {
+  const key = normalizeIssuer(issuer);
+  let cached = discoveryCache.get(key);
+
+  if (!cached) {
+    cached = fetchDiscoveryDocument(key, options).catch((err) => {
+      discoveryCache.delete(key);
+      throw err;
+    });
+    discoveryCache.set(key, cached);
+  }
+
+  return cached;
+}
+
+// Maps an absolute URL under the issuer onto the same-origin proxy path
+export function toProxyUrl(url: string, issuer: string, proxyPath?: string) {
+  const base = normalizeIssuer(issuer);
+  if (!proxyPath || !url.startsWith(base)) return url;
+  return `${proxyPath}${url.slice(base.length)}`;
+}
+
+// Resolves an endpoint from discovery, failing clearly when the provider does
+// not advertise it
+export async function resolveEndpoint(
+  issuer: string,
+  endpoint: EndpointName,
+  options: DiscoveryOptions = {}
+): Promise<string> {
+  const document = await getDiscoveryDocument(issuer, options);
+  const url = document[endpoint];
+
+  if (typeof url !== "string" || !url) {
+    throw new UnsupportedFeatureError(document.issuer, endpoint);
+  }
+
+  return toProxyUrl(url, issuer, options.proxyPath);
+}
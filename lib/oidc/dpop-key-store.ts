@@ -0,0 +1,66 @@
+import { DpopKey, generateDpopKey } from "./dpop";
+
+// Browser storage for DPoP keys, one per provider. Non-extractable keys can't
+// be serialized to sessionStorage, but IndexedDB stores CryptoKey objects as
+// they are, so the key survives the login redirect without ever being
+// exported.
+
+const DB_NAME = "oidc-dpop";
+const STORE_NAME = "keys";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Concurrent callers in this tab share one lookup, so only one key is
+// generated
+const pending = new Map<string, Promise<DpopKey>>();
+
+// The provider's DPoP key, generated on first use
+export function loadDpopKey(providerId: string): Promise<DpopKey> {
+  let key = pending.get(providerId);
+  if (!key) {
+    key = (async () => {
+      const stored = await withStore<DpopKey | undefined>("readonly", (store) =>
+        store.get(providerId)
+      );
+      if (stored) return stored;
+
+      const generated = await generateDpopKey();
+      await withStore("readwrite", (store) => store.put(generated, providerId));
+      return generated;
+    })().finally(() => pending.delete(providerId));
+    pending.set(providerId, key);
+  }
+  return key;
+}
+
+// Drops the key on logout; the next login binds its tokens to a new one
+export async function clearDpopKey(providerId: string) {
+  await withStore("readwrite", (store) => store.delete(providerId));
+}
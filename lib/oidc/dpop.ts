@@ -0,0 +1,143 @@
+import { jwkThumbprint } from "./jwks";
+import { base64UrlEncode } from "./jwt";
+
+// DPoP (RFC 9449): access tokens are bound to a key pair held by the client,
+// and every token or resource request carries a fresh proof JWT signed with
+// it. Used by the browser flow (key in IndexedDB, see dpop-key-store.ts) and
+// the server (key per process, see lib/bff/client.ts).
+
+export const DPOP_ALG = "ES256";
+
+export interface DpopKey {
+  // Non-extractable; only the public half ever leaves WebCrypto
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+  // RFC 7638 thumbprint of publicJwk, the cnf.jkt of bound tokens
+  jkt: string;
+}
+
+export interface DpopRequestOptions {
+  // Access token for resource requests: sent as "Authorization: DPoP" and
+  // hashed into the proof's ath claim
+  accessToken?: string;
+  // URL the provider sees, when fetching through a same-origin proxy
+  htu?: string;
+}
+
+// Latest DPoP-Nonce per server origin
+const nonces = new Map<string, string>();
+
+export async function generateDpopKey(): Promise<DpopKey> {
+  const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign", "verify"]
+  )) as CryptoKeyPair;
+  // The public key of a pair is always extractable
+  const { kty, crv, x, y } = await crypto.subtle.exportKey("jwk", publicKey);
+  const publicJwk = { kty, crv, x, y };
+  return { privateKey, publicJwk, jkt: await jwkThumbprint(publicJwk) };
+}
+
+export function isDpopTokenType(tokenType: string | undefined) {
+  return tokenType?.toLowerCase() === "dpop";
+}
+
+export async function createDpopProof(
+  key: DpopKey,
+  {
+    method,
+    url,
+    nonce,
+    accessToken,
+  }: { method: string; url: string; nonce?: string; accessToken?: string }
+): Promise<string> {
+  // htu is the target URI without query and fragment
+  const htu = new URL(url);
+  htu.search = "";
+  htu.hash = "";
+
+  const payload: Record<string, unknown> = {
+    jti: crypto.randomUUID(),
+    htm: method.toUpperCase(),
+    htu: htu.toString(),
+    iat: Math.floor(Date.now() / 1000),
+  };
+  if (nonce) payload.nonce = nonce;
+  if (accessToken) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(accessToken)
+    );
+    payload.ath = base64UrlEncode(new Uint8Array(digest));
+  }
+
+  const header = base64UrlEncode(
+    JSON.stringify({ typ: "dpop+jwt", alg: DPOP_ALG, jwk: key.publicJwk })
+  );
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    key.privateKey,
+    new TextEncoder().encode(`${header}.${body}`)
+  );
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// The server asks for a (new) nonce with use_dpop_nonce: in the JSON error of
+// the token endpoint, or the WWW-Authenticate header of a resource server
+async function isNonceChallenge(response: Response) {
+  if (response.status === 401) {
+    return /error="use_dpop_nonce"/.test(
+      response.headers.get("WWW-Authenticate") ?? ""
+    );
+  }
+  if (response.status === 400) {
+    const data = await response
+      .clone()
+      .json()
+      .catch(() => ({}));
+    return data.error === "use_dpop_nonce";
+  }
+  return false;
+}
+
+// fetch with a DPoP proof. Remembers the server's DPoP-Nonce and retries once
+// when the server challenges for a new one. init may be a function that
+// builds each attempt afresh, e.g. with a new single-use client assertion.
+export async function dpopFetch(
+  key: DpopKey,
+  url: string,
+  init: RequestInit | (() => Promise<RequestInit>) = {},
+  { accessToken, htu = url }: DpopRequestOptions = {}
+): Promise<Response> {
+  const origin = new URL(htu).origin;
+
+  const send = async () => {
+    const attempt = typeof init === "function" ? await init() : init;
+    const method = attempt.method ?? "GET";
+    const headers = new Headers(attempt.headers);
+    headers.set(
+      "DPoP",
+      await createDpopProof(key, {
+        method,
+        url: htu,
+        nonce: nonces.get(origin),
+        accessToken,
+      })
+    );
+    if (accessToken) headers.set("Authorization", `DPoP ${accessToken}`);
+
+    const response = await fetch(url, { ...attempt, headers });
+    const nonce = response.headers.get("DPoP-Nonce");
+    const changed = Boolean(nonce && nonce !== nonces.get(origin));
+    if (nonce) nonces.set(origin, nonce);
+    return { response, changed };
+  };
+
+  const { response, changed } = await send();
+  if (changed && (await isNonceChallenge(response))) {
+    return (await send()).response;
+  }
+  return response;
+}
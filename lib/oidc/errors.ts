@@ -0,0 +1,11 @@
+// Carries the provider's OAuth error code so callers can react to it
+export class OAuthError extends Error {
+  constructor(
+    public error: string,
+    description?: string,
+    public status = 400
+  ) {
+    super(description || error);
+    this.name = "OAuthError";
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { matchesFrontChannelLogout } from "./frontchannel-logout";
+import { base64UrlEncode } from "./jwt";
+import type { StoredTokens } from "./token-store";
+
+const ISSUER = "https://idp.example.com";
+
+// Only the payload is read, so the ID token needs no valid signature
+const tokens: StoredTokens = {
+  access_token: "access-token",
+  token_type: "Bearer",
+  id_token: [
+    base64UrlEncode(JSON.stringify({ alg: "RS256" })),
+    base64UrlEncode(JSON.stringify({ iss: ISSUER, sub: "user-1", sid: "s-1" })),
+    "signature",
+  ].join("."),
+};
+
+describe("matchesFrontChannelLogout", () => {
+  it("ignores a request without parameters", () => {
+    for (const sessionSupported of [true, false]) {
+      expect(
+        matchesFrontChannelLogout(
+          tokens,
+          ISSUER,
+          { iss: null, sid: null },
+          sessionSupported
+        )
+      ).toBe(false);
+    }
+  });
+
+  it("ignores another issuer or session", () => {
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        ISSUER,
+        { iss: "https://evil.example.com", sid: "s-1" },
+        true
+      )
+    ).toBe(false);
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        ISSUER,
+        { iss: ISSUER, sid: "s-2" },
+        true
+      )
+    ).toBe(false);
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        ISSUER,
+        { iss: ISSUER, sid: "s-2" },
+        false
+      )
+    ).toBe(false);
+  });
+
+  it("requires sid when the provider supports it", () => {
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        ISSUER,
+        { iss: ISSUER, sid: null },
+        true
+      )
+    ).toBe(false);
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        ISSUER,
+        { iss: ISSUER, sid: null },
+        false
+      )
+    ).toBe(true);
+  });
+
+  it("matches the stored session", () => {
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        ISSUER,
+        { iss: ISSUER, sid: "s-1" },
+        true
+      )
+    ).toBe(true);
+    expect(
+      matchesFrontChannelLogout(
+        tokens,
+        `${ISSUER}/`,
+        { iss: ISSUER, sid: "s-1" },
+        true
+      )
+    ).toBe(true);
+  });
+});
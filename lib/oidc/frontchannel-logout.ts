@@ -0,0 +1,33 @@
+import { decodeJwt } from "./jwt";
+import type { StoredTokens } from "./token-store";
+
+// OpenID Connect Front-Channel Logout 1.0: the provider loads the client's
+// frontchannel_logout_uri with ?iss=&sid=. Anyone can load that page, so a
+// request only ends the stored session when it names it.
+
+export interface FrontChannelLogoutRequest {
+  iss: string | null;
+  sid: string | null;
+}
+
+// Whether the request targets the stored tokens' session. iss must be the
+// provider's issuer. When the provider says it sends sid
+// (frontchannel_logout_session_supported), sid must be the ID token's sid;
+// otherwise a sid that is sent must still match.
+export function matchesFrontChannelLogout(
+  tokens: StoredTokens,
+  issuer: string,
+  { iss, sid }: FrontChannelLogoutRequest,
+  sessionSupported: boolean
+): boolean {
+  if (!iss || iss !== issuer.replace(/\/$/, "")) return false;
+  if (!sid) return !sessionSupported;
+  if (!tokens.id_token) return false;
+
+  try {
+    const { payload } = decodeJwt(tokens.id_token);
+    return payload.iss === iss && payload.sid === sid;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,242 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { IdTokenVerificationError, verifyIdToken } from "./id-token";
+import { JsonWebKeySet, verifyJwt } from "./jwks";
+import { base64UrlEncode, JwtPayload } from "./jwt";
+
+const ISSUER = "https://idp.example.com";
+const CLIENT_ID = "test-client";
+
+const ALGORITHMS = {
+  RS256: {
+    generate: {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    sign: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    generate: { name: "ECDSA", namedCurve: "P-256" },
+    sign: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+type TestAlgorithm = keyof typeof ALGORITHMS;
+
+interface TestSigner {
+  jwk: JsonWebKey & { kid: string };
+  sign: (
+    payload: JwtPayload,
+    header?: Record<string, unknown>
+  ) => Promise<string>;
+}
+
+async function createSigner(
+  alg: TestAlgorithm,
+  kid: string
+): Promise<TestSigner> {
+  const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+    ALGORITHMS[alg].generate,
+    true,
+    ["sign", "verify"]
+  )) as CryptoKeyPair;
+  const jwk = { ...(await crypto.subtle.exportKey("jwk", publicKey)), kid };
+
+  return {
+    jwk,
+    sign: async (payload, header = {}) => {
+      const signingInput = [
+        base64UrlEncode(JSON.stringify({ alg, typ: "JWT", kid, ...header })),
+        base64UrlEncode(JSON.stringify(payload)),
+      ].join(".");
+      const signature = await crypto.subtle.sign(
+        ALGORITHMS[alg].sign,
+        privateKey,
+        new TextEncoder().encode(signingInput)
+      );
+      return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+    },
+  };
+}
+
+// at_hash / c_hash of value for SHA-256 algorithms
+async function halfHash(value: string) {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))
+  );
+  return base64UrlEncode(digest.slice(0, 16));
+}
+
+function claims(overrides: JwtPayload = {}): JwtPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    sub: "user-1",
+    iat: now,
+    exp: now + 300,
+    nonce: "n-1",
+    ...overrides,
+  };
+}
+
+let rsa: TestSigner;
+let ec: TestSigner;
+let jwks: JsonWebKeySet;
+
+beforeAll(async () => {
+  rsa = await createSigner("RS256", "rsa-1");
+  ec = await createSigner("ES256", "ec-1");
+  jwks = { keys: [rsa.jwk, ec.jwk] };
+});
+
+function verify(token: string, options: { nonce?: string | null } = {}) {
+  return verifyIdToken(token, {
+    issuer: ISSUER,
+    clientId: CLIENT_ID,
+    nonce: "n-1",
+    jwks,
+    ...options,
+  });
+}
+
+async function expectRejected(token: Promise<string>, message: RegExp) {
+  const error = await verify(await token).catch((err) => err);
+  expect(error).toBeInstanceOf(IdTokenVerificationError);
+  expect(error.message).toMatch(message);
+}
+
+describe("verifyJwt", () => {
+  it("verifies RS256 and ES256 signatures", async () => {
+    for (const signer of [rsa, ec]) {
+      const { payload } = await verifyJwt(await signer.sign(claims()), jwks);
+      expect(payload.sub).toBe("user-1");
+    }
+  });
+
+  it("picks the key by kid", async () => {
+    const other = await createSigner("ES256", "ec-1");
+    await expect(verifyJwt(await other.sign(claims()), jwks)).rejects.toThrow(
+      "signature verification failed"
+    );
+    await expect(
+      verifyJwt(await ec.sign(claims(), { kid: "unknown" }), jwks)
+    ).rejects.toThrow('No matching key found in JWKS for kid "unknown"');
+  });
+
+  it("rejects a modified payload", async () => {
+    const [header, , signature] = (await rsa.sign(claims())).split(".");
+    const payload = base64UrlEncode(JSON.stringify(claims({ sub: "admin" })));
+    await expect(
+      verifyJwt(`${header}.${payload}.${signature}`, jwks)
+    ).rejects.toThrow("signature verification failed");
+  });
+
+  it("rejects unsupported algorithms", async () => {
+    await expect(
+      verifyJwt(await rsa.sign(claims(), { alg: "none" }), jwks)
+    ).rejects.toThrow("Unsupported JWT signing algorithm: none");
+  });
+});
+
+describe("verifyIdToken", () => {
+  it("returns the payload of a valid ID token", async () => {
+    const payload = await verify(await rsa.sign(claims()));
+    expect(payload).toMatchObject({ iss: ISSUER, sub: "user-1" });
+  });
+
+  it("rejects a bad signature", async () => {
+    const other = await createSigner("RS256", "rsa-1");
+    await expectRejected(other.sign(claims()), /signature verification/);
+  });
+
+  it("checks the issuer", async () => {
+    await expectRejected(
+      rsa.sign(claims({ iss: "https://evil.example.com" })),
+      /Unexpected issuer/
+    );
+  });
+
+  it("checks the audience and azp", async () => {
+    await expectRejected(
+      rsa.sign(claims({ aud: "other-client" })),
+      /audience does not include/
+    );
+    await expectRejected(
+      rsa.sign(claims({ aud: [CLIENT_ID, "other-client"] })),
+      /azp does not match/
+    );
+    await expectRejected(
+      rsa.sign(claims({ aud: [CLIENT_ID, "other-client"], azp: "other" })),
+      /azp does not match/
+    );
+    await expect(
+      verify(
+        await rsa.sign(
+          claims({ aud: [CLIENT_ID, "other-client"], azp: CLIENT_ID })
+        )
+      )
+    ).resolves.toBeDefined();
+  });
+
+  it("requires sub", async () => {
+    await expectRejected(rsa.sign(claims({ sub: undefined })), /sub claim/);
+  });
+
+  it("checks exp and iat with clock tolerance", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await expectRejected(rsa.sign(claims({ exp: now - 61 })), /has expired/);
+    await expectRejected(
+      rsa.sign(claims({ exp: undefined })),
+      /missing the exp claim/
+    );
+    await expectRejected(
+      rsa.sign(claims({ iat: now + 120 })),
+      /issued in the future/
+    );
+    await expectRejected(
+      rsa.sign(claims({ iat: undefined })),
+      /missing the iat claim/
+    );
+    await expectRejected(rsa.sign(claims({ nbf: now + 120 })), /not valid yet/);
+    // Within the default 60 seconds of skew
+    await expect(
+      verify(await rsa.sign(claims({ exp: now - 30, iat: now + 30 })))
+    ).resolves.toBeDefined();
+  });
+
+  it("checks the nonce when one was sent", async () => {
+    await expectRejected(rsa.sign(claims({ nonce: "n-2" })), /nonce/);
+    await expectRejected(rsa.sign(claims({ nonce: undefined })), /nonce/);
+    await expect(
+      verify(await rsa.sign(claims({ nonce: undefined })), {
+        nonce: undefined,
+      })
+    ).resolves.toBeDefined();
+  });
+
+  it("checks at_hash and c_hash", async () => {
+    const options = {
+      issuer: ISSUER,
+      clientId: CLIENT_ID,
+      nonce: "n-1",
+      jwks,
+      accessToken: "access-token",
+      code: "auth-code",
+    };
+    const token = await ec.sign(
+      claims({
+        at_hash: await halfHash("access-token"),
+        c_hash: await halfHash("auth-code"),
+      })
+    );
+    await expect(verifyIdToken(token, options)).resolves.toBeDefined();
+    await expect(
+      verifyIdToken(token, { ...options, accessToken: "other-token" })
+    ).rejects.toThrow("at_hash does not match");
+    await expect(
+      verifyIdToken(token, { ...options, code: "other-code" })
+    ).rejects.toThrow("c_hash does not match");
+  });
+});
@@ -0,0 +1,141 @@
+import { resolveEndpoint } from "./discovery";
+import { base64UrlEncode, JwtPayload } from "./jwt";
+import {
+  getAlgorithmHash,
+  JsonWebKeySet,
+  SupportedAlgorithm,
+  verifyJwt,
+} from "./jwks";
+
+export interface VerifyIdTokenOptions {
+  issuer: string;
+  clientId: string;
+  // Expected nonce from the authorization request, if one was sent
+  nonce?: string | null;
+  // Checked against at_hash / c_hash when the claims are present
+  accessToken?: string;
+  code?: string;
+  // Allowed clock skew in seconds for exp/iat/nbf
+  clockTolerance?: number;
+  // Same-origin proxy path for browser callers (see DiscoveryOptions)
+  proxyPath?: string;
+  // Keys to verify against instead of the issuer's jwks_uri, e.g. in tests
+  jwks?: JsonWebKeySet;
+}
+
+export class IdTokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdTokenVerificationError";
+  }
+}
+
+const DEFAULT_CLOCK_TOLERANCE = 60;
+
+// at_hash / c_hash: base64url of the left-most half of the hash of the value,
+// using the hash function of the ID token's signing algorithm
+async function leftHalfHash(value: string, alg: SupportedAlgorithm) {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest(
+      getAlgorithmHash(alg),
+      new TextEncoder().encode(value)
+    )
+  );
+  return base64UrlEncode(digest.slice(0, digest.length / 2));
+}
+
+function validateClaims(payload: JwtPayload, options: VerifyIdTokenOptions) {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+
+  if (payload.iss !== options.issuer) {
+    throw new IdTokenVerificationError(
+      `Unexpected issuer "${payload.iss}", expected "${options.issuer}"`
+    );
+  }
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(options.clientId)) {
+    throw new IdTokenVerificationError(
+      `ID token audience does not include client "${options.clientId}"`
+    );
+  }
+  if (audiences.length > 1 && payload.azp !== options.clientId) {
+    throw new IdTokenVerificationError(
+      "ID token has multiple audiences but azp does not match this client"
+    );
+  }
+
+  if (!payload.sub) {
+    throw new IdTokenVerificationError("ID token is missing the sub claim");
+  }
+
+  if (typeof payload.exp !== "number") {
+    throw new IdTokenVerificationError("ID token is missing the exp claim");
+  }
+  if (now - tolerance >= payload.exp) {
+    throw new IdTokenVerificationError("ID token has expired");
+  }
+
+  if (typeof payload.iat !== "number") {
+    throw new IdTokenVerificationError("ID token is missing the iat claim");
+  }
+  if (payload.iat > now + tolerance) {
+    throw new IdTokenVerificationError("ID token was issued in the future");
+  }
+
+  if (typeof payload.nbf === "number" && payload.nbf > now + tolerance) {
+    throw new IdTokenVerificationError("ID token is not valid yet (nbf)");
+  }
+
+  if (options.nonce !== undefined && payload.nonce !== options.nonce) {
+    throw new IdTokenVerificationError(
+      "ID token nonce does not match the authorization request"
+    );
+  }
+}
+
+// Verifies an ID token's signature against the issuer's JWKS and validates its
+// claims (OIDC Core 3.1.3.7). Returns the verified payload.
+export async function verifyIdToken(
+  idToken: string,
+  options: VerifyIdTokenOptions
+): Promise<JwtPayload> {
+  const jwks =
+    options.jwks ??
+    (await resolveEndpoint(options.issuer, "jwks_uri", {
+      proxyPath: options.proxyPath,
+    }));
+
+  let verified;
+  try {
+    verified = await verifyJwt(idToken, jwks);
+  } catch (err) {
+    throw new IdTokenVerificationError(
+      err instanceof Error ? err.message : "ID token signature is invalid"
+    );
+  }
+
+  const { header, payload } = verified;
+  const alg = header.alg as SupportedAlgorithm;
+
+  validateClaims(payload, options);
+
+  if (options.accessToken && payload.at_hash !== undefined) {
+    if (payload.at_hash !== (await leftHalfHash(options.accessToken, alg))) {
+      throw new IdTokenVerificationError(
+        "at_hash does not match the access token"
+      );
+    }
+  }
+
+  if (options.code && payload.c_hash !== undefined) {
+    if (payload.c_hash !== (await leftHalfHash(options.code, alg))) {
+      throw new IdTokenVerificationError(
+        "c_hash does not match the authorization code"
+      );
+    }
+  }
+
+  return payload;
+}
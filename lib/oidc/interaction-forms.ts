@@ -0,0 +1,55 @@
+// Browser helpers for submitting interaction results to the provider. Native
+// form submissions are used so the provider's redirects are followed.
+
+export function submitInteractionForm(
+  action: string,
+  fields: Record<string, string> = {}
+) {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = action;
+  Object.entries(fields).forEach(([name, value]) => {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  });
+  document.body.appendChild(form);
+  form.submit();
+}
+
+// Proxy path (e.g. /oidc) of the provider whose interactions the login and
+// consent pages handle, from the registry via /api/providers
+export async function fetchInteractionPath(): Promise<string> {
+  const response = await fetch("/api/providers");
+  const data = await response.json();
+  if (!response.ok || !data.interactionPath) {
+    throw new Error(
+      data.message || "No OIDC provider is proxied for login and consent"
+    );
+  }
+  return data.interactionPath;
+}
+
+// URL of an interaction endpoint under the provider's proxy path
+export function interactionUrl(
+  interactionPath: string,
+  uid: string,
+  action: "details" | "login" | "consent" | "abort"
+) {
+  return `${interactionPath}/interaction/${encodeURIComponent(uid)}/${action}`;
+}
+
+// Aborts the interaction: the provider redirects back to the client with
+// error=access_denied
+export function abortInteraction(
+  interactionPath: string,
+  uid: string,
+  description: string
+) {
+  submitInteractionForm(interactionUrl(interactionPath, uid, "abort"), {
+    error: "access_denied",
+    error_description: description,
+  });
+}
@@ -0,0 +1,136 @@
+import { OAuthError } from "./errors";
+import type { ProviderConfig } from "./providers";
+import { describeClaim, describeScope, REQUIRED_SCOPES } from "./scopes";
+
+// Interaction (login / consent prompt) details as served by the VLife
+// provider at GET {issuer}/interaction/:uid with Accept: application/json
+
+export interface InteractionPrompt {
+  name: "login" | "consent" | string;
+  reasons: string[];
+  details: {
+    missingOIDCScope?: string[];
+    missingOIDCClaims?: string[];
+    missingResourceScopes?: Record<string, string[]>;
+    rar?: unknown[];
+    [key: string]: unknown;
+  };
+}
+
+export interface InteractionDetails {
+  uid: string;
+  prompt: InteractionPrompt;
+  params: Record<string, unknown>;
+  client?: {
+    clientId: string;
+    clientName?: string;
+    logoUri?: string;
+    policyUri?: string;
+    tosUri?: string;
+    [key: string]: unknown;
+  };
+  session?: { accountId?: string; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+// Extracts the interaction UID from the authorization endpoint's redirect,
+// either /interaction/:uid or a custom page like /login?uid=...
+export function extractInteractionUid(location: string): string | null {
+  const url = new URL(location, "http://localhost");
+  const match = url.pathname.match(/\/interaction\/([^/]+)/);
+  return match ? match[1] : url.searchParams.get("uid");
+}
+
+export async function fetchInteractionDetails(
+  provider: ProviderConfig,
+  uid: string,
+  cookieHeader: string
+): Promise<InteractionDetails> {
+  const response = await fetch(
+    `${provider.issuer}/interaction/${encodeURIComponent(uid)}`,
+    {
+      headers: { Accept: "application/json", Cookie: cookieHeader },
+      redirect: "manual",
+      cache: "no-store",
+    }
+  );
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!response.ok || !contentType.includes("application/json")) {
+    const errorData = contentType.includes("application/json")
+      ? await response.json()
+      : {};
+    // Only provider errors pass through; a redirect (e.g. for an expired
+    // interaction) or a non-JSON success is a bad gateway response
+    throw new OAuthError(
+      errorData.error || "interaction_failed",
+      errorData.error_description ||
+        `Failed to load interaction ${uid} (HTTP ${response.status})`,
+      response.status >= 400 ? response.status : 502
+    );
+  }
+
+  return response.json();
+}
+
+// Consent screen view of an interaction, with human-readable descriptions
+export interface ConsentDetails {
+  uid: string;
+  prompt: string;
+  reasons: string[];
+  client: {
+    id: string;
+    name: string;
+    logoUri?: string;
+    policyUri?: string;
+    tosUri?: string;
+  };
+  scopes: {
+    value: string;
+    description: string;
+    required: boolean;
+    // Not yet granted to this client, i.e. the reason consent is asked
+    missing: boolean;
+  }[];
+  claims: { value: string; description: string }[];
+  resources: { resource: string; scopes: string[] }[];
+}
+
+export function toConsentDetails(
+  interaction: InteractionDetails
+): ConsentDetails {
+  const details = interaction.prompt.details ?? {};
+  const missingScopes = details.missingOIDCScope ?? [];
+  const requestedScopes =
+    typeof interaction.params.scope === "string"
+      ? interaction.params.scope.split(" ").filter(Boolean)
+      : missingScopes;
+  const clientId =
+    interaction.client?.clientId ?? String(interaction.params.client_id ?? "");
+
+  return {
+    uid: interaction.uid,
+    prompt: interaction.prompt.name,
+    reasons: interaction.prompt.reasons ?? [],
+    client: {
+      id: clientId,
+      name: interaction.client?.clientName ?? clientId,
+      logoUri: interaction.client?.logoUri,
+      policyUri: interaction.client?.policyUri,
+      tosUri: interaction.client?.tosUri,
+    },
+    scopes: requestedScopes.map((scope) => ({
+      value: scope,
+      description: describeScope(scope),
+      required: REQUIRED_SCOPES.includes(scope),
+      missing: missingScopes.includes(scope),
+    })),
+    claims: (details.missingOIDCClaims ?? []).map((claim) => ({
+      value: claim,
+      description: describeClaim(claim),
+    })),
+    resources: Object.entries(details.missingResourceScopes ?? {}).map(
+      ([resource, scopes]) => ({ resource, scopes })
+    ),
+  };
+}
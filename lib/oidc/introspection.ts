@@ -0,0 +1,104 @@
+import type { TokenTypeHint } from "@/lib/bff/client";
+import { resolveEndpoint } from "./discovery";
+import { OAuthError } from "./errors";
+import { decodeJwt, JwtPayload } from "./jwt";
+import type { PublicProviderConfig } from "./providers";
+
+// Token introspection results (RFC 7662) and how they are described, shared
+// by the server (lib/bff/introspection.ts) and the browser, which introspects
+// as the public client when the server routes aren't served.
+
+export interface IntrospectionClaims extends JwtPayload {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  token_type?: string;
+}
+
+export interface IntrospectionResult {
+  active: boolean;
+  // Why the token is (in)active, for display
+  reason: string;
+  claims: IntrospectionClaims;
+  // The provider answered with a signed JWT (RFC 9701)
+  signed: boolean;
+  // Served from the cache rather than asked again
+  cached: boolean;
+}
+
+function formatTime(epochSeconds: number) {
+  return new Date(epochSeconds * 1000).toISOString();
+}
+
+// Inactive responses carry nothing but active: false (RFC 7662 section 2.2).
+// A JWT token still tells when it expired; otherwise list what the provider
+// may mean.
+export function describeIntrospection(
+  claims: IntrospectionClaims,
+  token: string
+) {
+  if (claims.active) {
+    return typeof claims.exp === "number"
+      ? `Active until ${formatTime(claims.exp)}`
+      : "Active, with no expiry";
+  }
+
+  try {
+    const { exp, nbf } = decodeJwt(token).payload;
+    const now = Date.now() / 1000;
+    if (typeof exp === "number" && exp <= now) {
+      return `Expired at ${formatTime(exp)}`;
+    }
+    if (typeof nbf === "number" && nbf > now) {
+      return `Not valid before ${formatTime(nbf)}`;
+    }
+  } catch {
+    // Opaque token
+  }
+  return "The provider reports the token inactive: it was revoked, has expired, was not issued to this client, or is unknown";
+}
+
+// Introspection from the browser through the same-origin proxy. A public
+// client sends only its client_id; the provider decides whether to answer.
+export async function introspectAsPublicClient(
+  provider: PublicProviderConfig,
+  token: string,
+  tokenTypeHint: TokenTypeHint
+): Promise<IntrospectionResult> {
+  const introspectionEndpoint = await resolveEndpoint(
+    provider.issuer,
+    "introspection_endpoint",
+    { proxyPath: provider.proxyPath }
+  );
+  const response = await fetch(introspectionEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      token,
+      token_type_hint: tokenTypeHint,
+      client_id: provider.clientId,
+    }).toString(),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new OAuthError(
+      data.error || "introspection_failed",
+      data.error_description || "Token introspection failed",
+      response.status
+    );
+  }
+  if (typeof data.active !== "boolean") {
+    throw new Error("Introspection response has no active member");
+  }
+  return {
+    active: data.active,
+    reason: describeIntrospection(data, token),
+    claims: data,
+    signed: false,
+    cached: false,
+  };
+}
@@ -0,0 +1,75 @@
+import type { JsonWebKeySet } from "./jwks";
+import { base64UrlEncode } from "./jwt";
+
+// Minimal JWE encryption (compact serialization) for nested JWTs sent to the
+// provider. Only RSA-OAEP-256 key wrapping with A256GCM content encryption.
+
+export const JWE_ALG = "RSA-OAEP-256";
+export const JWE_ENC = "A256GCM";
+
+function selectEncryptionKey(jwks: JsonWebKeySet) {
+  const key = jwks.keys.find(
+    (k) =>
+      k.kty === "RSA" &&
+      (k.use === "enc" || (!k.use && (!k.alg || k.alg === JWE_ALG)))
+  );
+  if (!key) {
+    throw new Error(`The provider's JWKS has no RSA key for ${JWE_ALG}`);
+  }
+  return key;
+}
+
+// Encrypts a signed JWT to the first suitable encryption key in jwks
+export async function encryptJwt(
+  jwt: string,
+  jwks: JsonWebKeySet
+): Promise<string> {
+  const jwk = selectEncryptionKey(jwks);
+  const publicKey = await crypto.subtle.importKey(
+    "jwk",
+    { kty: jwk.kty, n: jwk.n, e: jwk.e },
+    { name: "RSA-OAEP", hash: "SHA-256" },
+    false,
+    ["encrypt"]
+  );
+
+  const cek = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encryptedKey = await crypto.subtle.encrypt(
+    { name: "RSA-OAEP" },
+    publicKey,
+    cek
+  );
+
+  const protectedHeader = base64UrlEncode(
+    JSON.stringify({ alg: JWE_ALG, enc: JWE_ENC, cty: "JWT", kid: jwk.kid })
+  );
+  const contentKey = await crypto.subtle.importKey(
+    "raw",
+    cek,
+    "AES-GCM",
+    false,
+    ["encrypt"]
+  );
+  // WebCrypto appends the 16-byte authentication tag to the ciphertext
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: new TextEncoder().encode(protectedHeader),
+        tagLength: 128,
+      },
+      contentKey,
+      new TextEncoder().encode(jwt)
+    )
+  );
+
+  return [
+    protectedHeader,
+    base64UrlEncode(new Uint8Array(encryptedKey)),
+    base64UrlEncode(iv),
+    base64UrlEncode(sealed.slice(0, -16)),
+    base64UrlEncode(sealed.slice(-16)),
+  ].join(".");
+}
@@ -0,0 +1,216 @@
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  decodeJwt,
+  JwtHeader,
+  JwtPayload,
+} from "./jwt";
+
+// Asymmetric algorithms accepted for provider-signed JWTs, mapped to their
+// WebCrypto import and verify parameters
+const SUPPORTED_ALGORITHMS = {
+  RS256: {
+    kty: "RSA",
+    hash: "SHA-256",
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  PS256: {
+    kty: "RSA",
+    hash: "SHA-256",
+    importParams: { name: "RSA-PSS", hash: "SHA-256" },
+    verifyParams: { name: "RSA-PSS", saltLength: 32 },
+  },
+  ES256: {
+    kty: "EC",
+    hash: "SHA-256",
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+export type SupportedAlgorithm = keyof typeof SUPPORTED_ALGORITHMS;
+
+export const SUPPORTED_ALGORITHM_NAMES = Object.keys(
+  SUPPORTED_ALGORITHMS
+) as SupportedAlgorithm[];
+
+export interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string; use?: string })[];
+}
+
+// Keys are cached for a while, and refetched early (at most once per cooldown)
+// when a token references a kid we have not seen yet, to pick up key rotation
+const JWKS_TTL_MS = 10 * 60 * 1000;
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+
+const jwksCache = new Map<string, { jwks: JsonWebKeySet; fetchedAt: number }>();
+
+export async function getJwks(
+  jwksUri: string,
+  forceRefresh = false
+): Promise<JsonWebKeySet> {
+  const cached = jwksCache.get(jwksUri);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+  if (
+    cached &&
+    age < JWKS_TTL_MS &&
+    (!forceRefresh || age < JWKS_REFRESH_COOLDOWN_MS)
+  ) {
+    return cached.jwks;
+  }
+
+  const response = await fetch(jwksUri);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load JWKS from ${jwksUri} (HTTP ${response.status})`
+    );
+  }
+
+  const jwks: JsonWebKeySet = await response.json();
+  if (!Array.isArray(jwks.keys)) {
+    throw new Error(`Invalid JWKS returned by ${jwksUri}`);
+  }
+
+  jwksCache.set(jwksUri, { jwks, fetchedAt: Date.now() });
+  return jwks;
+}
+
+// Members of each key type that make up the public key, in the order the
+// RFC 7638 thumbprint needs
+const PUBLIC_MEMBERS: Record<string, (keyof JsonWebKey)[]> = {
+  RSA: ["e", "kty", "n"],
+  EC: ["crv", "kty", "x", "y"],
+};
+
+// The public members of a JWK, without private parts or metadata
+export function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  const members = PUBLIC_MEMBERS[jwk.kty ?? ""];
+  if (!members) {
+    throw new Error(`Unsupported key type "${jwk.kty}"`);
+  }
+  return Object.fromEntries(members.map((member) => [member, jwk[member]]));
+}
+
+// RFC 7638 JWK thumbprint (SHA-256), e.g. a DPoP key's jkt
+export async function jwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(toPublicJwk(jwk)))
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export function isSupportedAlgorithm(alg: string): alg is SupportedAlgorithm {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_ALGORITHMS, alg);
+}
+
+export function getAlgorithmHash(alg: SupportedAlgorithm) {
+  return SUPPORTED_ALGORITHMS[alg].hash;
+}
+
+function selectKeys(jwks: JsonWebKeySet, header: JwtHeader) {
+  const { kty } = SUPPORTED_ALGORITHMS[header.alg as SupportedAlgorithm];
+
+  return jwks.keys.filter(
+    (key) =>
+      key.kty === kty &&
+      (!key.use || key.use === "sig") &&
+      (!key.alg || key.alg === header.alg) &&
+      (!header.kid || key.kid === header.kid)
+  );
+}
+
+async function verifyWithKey(
+  key: JsonWebKey,
+  alg: SupportedAlgorithm,
+  signingInput: Uint8Array<ArrayBuffer>,
+  signature: Uint8Array<ArrayBuffer>
+) {
+  const { importParams, verifyParams } = SUPPORTED_ALGORITHMS[alg];
+
+  // Import only the public key material; alg/use/key_ops on published keys
+  // can conflict with WebCrypto's own checks
+  const { kty, n, e, crv, x, y } = key;
+  const cryptoKey = await crypto.subtle.importKey(
+    "jwk",
+    { kty, n, e, crv, x, y },
+    importParams,
+    false,
+    ["verify"]
+  );
+
+  return crypto.subtle.verify(verifyParams, cryptoKey, signature, signingInput);
+}
+
+// Verifies a compact JWS against the keys published at jwksUri, or a key set
+// given directly (e.g. locally generated test keys), and returns the decoded
+// header and payload. Claims are NOT validated here.
+export async function verifyJwt(
+  token: string,
+  jwks: string | JsonWebKeySet
+): Promise<{ header: JwtHeader; payload: JwtPayload }> {
+  const { header, payload } = decodeJwt(token);
+
+  if (!isSupportedAlgorithm(header.alg)) {
+    throw new Error(`Unsupported JWT signing algorithm: ${header.alg}`);
+  }
+
+  let candidates;
+  if (typeof jwks === "string") {
+    candidates = selectKeys(await getJwks(jwks), header);
+    if (candidates.length === 0) {
+      candidates = selectKeys(await getJwks(jwks, true), header);
+    }
+  } else {
+    candidates = selectKeys(jwks, header);
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(
+      `No matching key found in JWKS for kid "${header.kid ?? "(none)"}" and alg ${header.alg}`
+    );
+  }
+
+  await verifySignature(token, header.alg, candidates);
+  return { header, payload };
+}
+
+// Verifies a compact JWS with one given key, whatever its kid, e.g. the jwk
+// embedded in a DPoP proof. Claims are NOT validated here.
+export async function verifyJwtWithKey(
+  token: string,
+  key: JsonWebKey
+): Promise<{ header: JwtHeader; payload: JwtPayload }> {
+  const { header, payload } = decodeJwt(token);
+
+  if (!isSupportedAlgorithm(header.alg)) {
+    throw new Error(`Unsupported JWT signing algorithm: ${header.alg}`);
+  }
+  if (key.kty !== SUPPORTED_ALGORITHMS[header.alg].kty) {
+    throw new Error(`Key type ${key.kty} does not match alg ${header.alg}`);
+  }
+
+  await verifySignature(token, header.alg, [key]);
+  return { header, payload };
+}
+
+// Throws unless one of the keys verifies the token's signature
+async function verifySignature(
+  token: string,
+  alg: SupportedAlgorithm,
+  keys: JsonWebKey[]
+) {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split(".");
+  const signingInput = new TextEncoder().encode(
+    `${encodedHeader}.${encodedPayload}`
+  );
+  const signature = base64UrlDecode(encodedSignature);
+
+  for (const key of keys) {
+    if (await verifyWithKey(key, alg, signingInput, signature)) return;
+  }
+
+  throw new Error("JWT signature verification failed");
+}
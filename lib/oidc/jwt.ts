@@ -0,0 +1,63 @@
+// Minimal JWT decoding helpers (no signature verification)
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+  [key: string]: unknown;
+}
+
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  nonce?: string;
+  [key: string]: unknown;
+}
+
+export function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes =
+    typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeJwt(token: string): {
+  header: JwtHeader;
+  payload: JwtPayload;
+} {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Malformed JWT: expected three segments");
+  }
+
+  try {
+    const decoder = new TextDecoder();
+    return {
+      header: JSON.parse(decoder.decode(base64UrlDecode(parts[0]))),
+      payload: JSON.parse(decoder.decode(base64UrlDecode(parts[1]))),
+    };
+  } catch {
+    throw new Error("Malformed JWT: header or payload is not valid JSON");
+  }
+}
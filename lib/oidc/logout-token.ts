@@ -0,0 +1,142 @@
+import { resolveEndpoint } from "./discovery";
+import { JwtPayload } from "./jwt";
+import { JsonWebKeySet, verifyJwt } from "./jwks";
+
+// OpenID Connect Back-Channel Logout 1.0, section 2.6
+
+export const BACKCHANNEL_LOGOUT_EVENT =
+  "http://schemas.openid.net/event/backchannel-logout";
+
+export interface VerifyLogoutTokenOptions {
+  issuer: string;
+  clientId: string;
+  // Verify against these keys instead of the issuer's JWKS (local testing)
+  jwks?: JsonWebKeySet;
+  // Allowed clock skew in seconds for iat/exp
+  clockTolerance?: number;
+}
+
+export class LogoutTokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogoutTokenVerificationError";
+  }
+}
+
+const DEFAULT_CLOCK_TOLERANCE = 60;
+// Logout tokens without exp are accepted this long after iat
+const MAX_TOKEN_AGE = 5 * 60;
+
+// jti values already processed, to reject replayed logout tokens. Kept on
+// globalThis so every route bundle and hot reload shares them.
+const globalForLogoutTokens = globalThis as unknown as {
+  oidcSeenLogoutTokenIds?: Map<string, number>;
+};
+const seenTokenIds = (globalForLogoutTokens.oidcSeenLogoutTokenIds ??=
+  new Map());
+
+function rememberTokenId(jti: string, expiresAt: number) {
+  const now = Math.floor(Date.now() / 1000);
+  for (const [id, exp] of seenTokenIds) {
+    if (exp < now) seenTokenIds.delete(id);
+  }
+
+  if (seenTokenIds.has(jti)) {
+    throw new LogoutTokenVerificationError("Logout token was already used");
+  }
+  seenTokenIds.set(jti, expiresAt);
+}
+
+function validateClaims(
+  payload: JwtPayload,
+  options: VerifyLogoutTokenOptions
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+
+  if (payload.iss !== options.issuer) {
+    throw new LogoutTokenVerificationError(
+      `Unexpected issuer "${payload.iss}", expected "${options.issuer}"`
+    );
+  }
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(options.clientId)) {
+    throw new LogoutTokenVerificationError(
+      `Logout token audience does not include client "${options.clientId}"`
+    );
+  }
+
+  if (typeof payload.iat !== "number") {
+    throw new LogoutTokenVerificationError(
+      "Logout token is missing the iat claim"
+    );
+  }
+  if (payload.iat > now + tolerance) {
+    throw new LogoutTokenVerificationError(
+      "Logout token was issued in the future"
+    );
+  }
+  const exp =
+    typeof payload.exp === "number" ? payload.exp : payload.iat + MAX_TOKEN_AGE;
+  if (now - tolerance >= exp) {
+    throw new LogoutTokenVerificationError("Logout token has expired");
+  }
+
+  const events = payload.events as Record<string, unknown> | undefined;
+  const event = events?.[BACKCHANNEL_LOGOUT_EVENT];
+  if (typeof event !== "object" || event === null) {
+    throw new LogoutTokenVerificationError(
+      `Logout token events claim must contain ${BACKCHANNEL_LOGOUT_EVENT}`
+    );
+  }
+
+  if (!payload.sub && !payload.sid) {
+    throw new LogoutTokenVerificationError(
+      "Logout token must contain a sub or sid claim"
+    );
+  }
+
+  // Prevents an ID token from being accepted as a logout token
+  if (payload.nonce !== undefined) {
+    throw new LogoutTokenVerificationError(
+      "Logout token must not contain a nonce claim"
+    );
+  }
+
+  if (typeof payload.jti !== "string") {
+    throw new LogoutTokenVerificationError(
+      "Logout token is missing the jti claim"
+    );
+  }
+  rememberTokenId(payload.jti, exp);
+}
+
+// Verifies a logout token's signature and claims. Returns the verified payload.
+export async function verifyLogoutToken(
+  logoutToken: string,
+  options: VerifyLogoutTokenOptions
+): Promise<JwtPayload> {
+  const jwks =
+    options.jwks ?? (await resolveEndpoint(options.issuer, "jwks_uri"));
+
+  let verified;
+  try {
+    verified = await verifyJwt(logoutToken, jwks);
+  } catch (err) {
+    throw new LogoutTokenVerificationError(
+      err instanceof Error ? err.message : "Logout token signature is invalid"
+    );
+  }
+
+  const { header, payload } = verified;
+  // Explicitly typed tokens must be logout tokens
+  if (header.typ && !["logout+jwt", "JWT"].includes(header.typ)) {
+    throw new LogoutTokenVerificationError(
+      `Unexpected logout token type "${header.typ}"`
+    );
+  }
+
+  validateClaims(payload, options);
+  return payload;
+}
@@ -0,0 +1,339 @@
+import { readFileSync } from "fs";
+
+// Registry of OIDC providers (issuer + registered client) this app can talk to.
+//
+// Loaded, in order of precedence, from:
+//   OIDC_PROVIDERS       JSON array (or { "providers": [...] }) in the env
+//   OIDC_PROVIDERS_FILE  path to a JSON file with the same shape
+//   built-in defaults    the local VLife test client, plus the NextAuth
+//                        client when VLIFE_ISSUER / VLIFE_CLIENT_ID are set
+//
+// Server-only: never import this module from client components except with
+// `import type`. Browsers receive PublicProviderConfig via /api/providers.
+
+export type TokenEndpointAuthMethod =
+  | "client_secret_basic"
+  | "client_secret_post"
+  | "client_secret_jwt"
+  | "private_key_jwt"
+  | "none";
+
+// Algorithms the app's own client keys sign with (see client-keys.ts)
+export type ClientSigningAlgorithm = "RS256" | "ES256";
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  // How the client authenticates to the token, PAR, introspection and
+  // revocation endpoints (see lib/oidc/client-auth.ts). private_key_jwt signs
+  // with the client key for tokenEndpointAuthSigningAlg.
+  tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+  tokenEndpointAuthSigningAlg: ClientSigningAlgorithm;
+  scopes: string[];
+  // Registered redirect URIs. The test client uses the one ending in
+  // /auth/callback, NextAuth the one ending in /api/auth/callback/<id>.
+  // Empty for clients used only for the client credentials grant.
+  redirectUris: string[];
+  postLogoutRedirectUri?: string;
+  // Same-origin path rewritten to the issuer (see next.config.ts), used by
+  // the browser flow and the login/consent pages
+  proxyPath?: string;
+  // Send authorization parameters through Pushed Authorization Requests
+  // (RFC 9126) by default
+  usePar?: boolean;
+  // Send authorization parameters as a signed request object (RFC 9101) by
+  // default, signed with the client key for requestObjectSigningAlg and,
+  // with encryptRequestObject, encrypted to the provider's key
+  useJar?: boolean;
+  requestObjectSigningAlg: ClientSigningAlgorithm;
+  encryptRequestObject?: boolean;
+  // Bind access tokens to a DPoP key (RFC 9449) and send DPoP proofs with
+  // token, refresh and resource requests
+  useDpop?: boolean;
+  // APIs (RFC 8707 resource indicators) to include in the grant. Requested
+  // at authorization; tokens for each one are then fetched on demand.
+  resources: string[];
+}
+
+// What the browser may know about a provider: no client secret
+export interface PublicProviderConfig extends Omit<
+  ProviderConfig,
+  "clientSecret" | "redirectUris"
+> {
+  // Redirect URI of the manual test client's /auth/callback page
+  redirectUri: string;
+}
+
+const AUTH_METHODS: TokenEndpointAuthMethod[] = [
+  "client_secret_basic",
+  "client_secret_post",
+  "client_secret_jwt",
+  "private_key_jwt",
+  "none",
+];
+
+// Methods that authenticate with the client secret
+const SECRET_AUTH_METHODS: TokenEndpointAuthMethod[] = [
+  "client_secret_basic",
+  "client_secret_post",
+  "client_secret_jwt",
+];
+
+const SIGNING_ALGORITHMS: ClientSigningAlgorithm[] = ["RS256", "ES256"];
+
+const DEFAULT_SCOPES = ["openid", "profile", "email", "offline_access"];
+
+function defaultProviders(): unknown[] {
+  const appUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+  const providers: unknown[] = [
+    {
+      id: "vlife-local",
+      name: "VLife (local)",
+      issuer: "http://localhost:4001/oidc",
+      clientId: "partner-dashboard-local-2",
+      tokenEndpointAuthMethod: "none",
+      redirectUris: ["http://localhost:3000/auth/callback"],
+      postLogoutRedirectUri: "http://localhost:3000",
+      proxyPath: "/oidc",
+    },
+  ];
+
+  if (process.env.VLIFE_ISSUER && process.env.VLIFE_CLIENT_ID) {
+    providers.push({
+      id: "vlife",
+      name: "VLife",
+      issuer: process.env.VLIFE_ISSUER,
+      clientId: process.env.VLIFE_CLIENT_ID,
+      clientSecret: process.env.VLIFE_CLIENT_SECRET,
+      tokenEndpointAuthMethod: "client_secret_post",
+      redirectUris: [`${appUrl}/api/auth/callback/vlife`],
+      postLogoutRedirectUri: appUrl,
+    });
+  }
+
+  return providers;
+}
+
+function readRawProviders(): unknown[] {
+  let source: string | undefined;
+  let raw: string | undefined;
+
+  if (process.env.OIDC_PROVIDERS) {
+    source = "OIDC_PROVIDERS";
+    raw = process.env.OIDC_PROVIDERS;
+  } else if (process.env.OIDC_PROVIDERS_FILE) {
+    source = process.env.OIDC_PROVIDERS_FILE;
+    raw = readFileSync(process.env.OIDC_PROVIDERS_FILE, "utf8");
+  }
+
+  if (!raw) return defaultProviders();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`Provider configuration in ${source} is not valid JSON`);
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { providers?: unknown })?.providers;
+  if (!Array.isArray(list)) {
+    throw new Error(
+      `Provider configuration in ${source} must be an array or { "providers": [...] }`
+    );
+  }
+  return list;
+}
+
+function parseProvider(value: unknown, index: number): ProviderConfig {
+  const entry = (value ?? {}) as Record<string, unknown>;
+  const label = typeof entry.id === "string" ? entry.id : `#${index}`;
+
+  const requireString = (key: string) => {
+    if (typeof entry[key] !== "string" || !entry[key]) {
+      throw new Error(`Provider ${label}: "${key}" is required`);
+    }
+    return entry[key] as string;
+  };
+
+  const tokenEndpointAuthMethod = (entry.tokenEndpointAuthMethod ??
+    (entry.clientSecret
+      ? "client_secret_basic"
+      : "none")) as TokenEndpointAuthMethod;
+  if (!AUTH_METHODS.includes(tokenEndpointAuthMethod)) {
+    throw new Error(
+      `Provider ${label}: unsupported tokenEndpointAuthMethod "${tokenEndpointAuthMethod}"`
+    );
+  }
+  if (
+    SECRET_AUTH_METHODS.includes(tokenEndpointAuthMethod) &&
+    !entry.clientSecret
+  ) {
+    throw new Error(
+      `Provider ${label}: ${tokenEndpointAuthMethod} requires a clientSecret`
+    );
+  }
+
+  const signingAlg = (key: string) => {
+    const alg = (entry[key] ?? "RS256") as ClientSigningAlgorithm;
+    if (!SIGNING_ALGORITHMS.includes(alg)) {
+      throw new Error(`Provider ${label}: unsupported ${key} "${alg}"`);
+    }
+    return alg;
+  };
+
+  const redirectUris = entry.redirectUris ?? [];
+  if (
+    !Array.isArray(redirectUris) ||
+    redirectUris.some((uri) => typeof uri !== "string")
+  ) {
+    throw new Error(`Provider ${label}: "redirectUris" must be an array`);
+  }
+
+  // RFC 8707 section 2: absolute URIs without a fragment
+  const resources = entry.resources ?? [];
+  if (
+    !Array.isArray(resources) ||
+    resources.some(
+      (resource) =>
+        typeof resource !== "string" ||
+        !URL.canParse(resource) ||
+        resource.includes("#")
+    )
+  ) {
+    throw new Error(
+      `Provider ${label}: "resources" must be an array of absolute URIs without a fragment`
+    );
+  }
+
+  return {
+    id: requireString("id"),
+    name: typeof entry.name === "string" ? entry.name : label,
+    issuer: requireString("issuer").replace(/\/$/, ""),
+    clientId: requireString("clientId"),
+    clientSecret:
+      typeof entry.clientSecret === "string" ? entry.clientSecret : undefined,
+    tokenEndpointAuthMethod,
+    tokenEndpointAuthSigningAlg: signingAlg("tokenEndpointAuthSigningAlg"),
+    scopes: Array.isArray(entry.scopes)
+      ? (entry.scopes as string[])
+      : DEFAULT_SCOPES,
+    redirectUris: redirectUris as string[],
+    postLogoutRedirectUri:
+      typeof entry.postLogoutRedirectUri === "string"
+        ? entry.postLogoutRedirectUri
+        : undefined,
+    proxyPath:
+      typeof entry.proxyPath === "string"
+        ? entry.proxyPath.replace(/\/$/, "")
+        : undefined,
+    usePar: entry.usePar === true,
+    useJar: entry.useJar === true,
+    requestObjectSigningAlg: signingAlg("requestObjectSigningAlg"),
+    encryptRequestObject: entry.encryptRequestObject === true,
+    useDpop: entry.useDpop === true,
+    resources: resources as string[],
+  };
+}
+
+let registry: ProviderConfig[] | undefined;
+
+export function listProviders(): ProviderConfig[] {
+  if (!registry) {
+    const providers = readRawProviders().map(parseProvider);
+    const ids = new Set<string>();
+    for (const provider of providers) {
+      if (ids.has(provider.id)) {
+        throw new Error(`Duplicate provider id "${provider.id}"`);
+      }
+      ids.add(provider.id);
+    }
+    registry = providers;
+  }
+  return registry;
+}
+
+export function getProvider(id: string): ProviderConfig {
+  const provider = listProviders().find((p) => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown OIDC provider "${id}"`);
+  }
+  return provider;
+}
+
+// Provider served under a same-origin proxy path (e.g. the one whose
+// interactions the login/consent pages handle)
+export function getProviderByProxyPath(proxyPath: string): ProviderConfig {
+  const provider = listProviders().find((p) => p.proxyPath === proxyPath);
+  if (!provider) {
+    throw new Error(`No OIDC provider is proxied at "${proxyPath}"`);
+  }
+  return provider;
+}
+
+// Provider whose login and consent pages this app serves (app/login,
+// app/consent): the default provider if it is proxied, else the first proxied
+// one. The pages reach its interaction endpoints under its proxyPath.
+export function getInteractionProvider(): ProviderConfig | undefined {
+  const defaultProvider = getDefaultProvider();
+  return defaultProvider.proxyPath
+    ? defaultProvider
+    : listProviders().find((provider) => provider.proxyPath);
+}
+
+// Provider used when none is selected explicitly
+export function getDefaultProvider(): ProviderConfig {
+  const id = process.env.OIDC_DEFAULT_PROVIDER;
+  return id ? getProvider(id) : listProviders()[0];
+}
+
+function findRedirectUri(provider: ProviderConfig, pathname: string) {
+  return provider.redirectUris.find(
+    (uri) => new URL(uri).pathname === pathname
+  );
+}
+
+// Redirect URI of the manual test client / BFF callback page, if registered
+export function getTestClientRedirectUri(provider: ProviderConfig) {
+  return findRedirectUri(provider, "/auth/callback");
+}
+
+// Redirect URI NextAuth will use for this provider, if registered
+export function getNextAuthRedirectUri(provider: ProviderConfig) {
+  return findRedirectUri(provider, `/api/auth/callback/${provider.id}`);
+}
+
+// Where the provider returns after NextAuth's RP-initiated logout. Lives on
+// the same origin as the NextAuth callback and must be registered too.
+export function getNextAuthPostLogoutRedirectUri(provider: ProviderConfig) {
+  const redirectUri = getNextAuthRedirectUri(provider);
+  return redirectUri
+    ? new URL("/api/auth/post-logout", redirectUri).toString()
+    : undefined;
+}
+
+// Copy of value without keys
+function omit<T extends object, K extends keyof T>(
+  value: T,
+  keys: K[]
+): Omit<T, K> {
+  const copy: Partial<T> = { ...value };
+  for (const key of keys) delete copy[key];
+  return copy as Omit<T, K>;
+}
+
+// Providers the test client can exercise, without secrets
+export function listPublicProviders(): PublicProviderConfig[] {
+  return listProviders().flatMap((provider) => {
+    const redirectUri = getTestClientRedirectUri(provider);
+    if (!redirectUri) return [];
+
+    return [
+      { ...omit(provider, ["clientSecret", "redirectUris"]), redirectUri },
+    ];
+  });
+}
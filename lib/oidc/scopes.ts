@@ -0,0 +1,98 @@
+// Human-readable descriptions of standard OIDC scopes and claims, and the
+// claims each scope is expected to release (OIDC Core 5.4)
+
+export const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  openid: "Sign you in and confirm your identity",
+  profile: "View your basic profile (name, picture, locale)",
+  email: "View your email address",
+  address: "View your postal address",
+  phone: "View your phone number",
+  offline_access: "Stay signed in and access your data while you are away",
+};
+
+export const CLAIM_DESCRIPTIONS: Record<string, string> = {
+  sub: "Your account identifier",
+  name: "Full name",
+  given_name: "First name",
+  family_name: "Last name",
+  middle_name: "Middle name",
+  nickname: "Nickname",
+  preferred_username: "Username",
+  profile: "Profile page URL",
+  picture: "Profile picture",
+  website: "Website",
+  gender: "Gender",
+  birthdate: "Birthdate",
+  zoneinfo: "Time zone",
+  locale: "Locale",
+  updated_at: "Profile last updated",
+  email: "Email address",
+  email_verified: "Whether your email is verified",
+  address: "Postal address",
+  phone_number: "Phone number",
+  phone_number_verified: "Whether your phone number is verified",
+};
+
+export const SCOPE_CLAIMS: Record<string, string[]> = {
+  openid: ["sub"],
+  profile: [
+    "name",
+    "family_name",
+    "given_name",
+    "middle_name",
+    "nickname",
+    "preferred_username",
+    "profile",
+    "picture",
+    "website",
+    "gender",
+    "birthdate",
+    "zoneinfo",
+    "locale",
+    "updated_at",
+  ],
+  email: ["email", "email_verified"],
+  address: ["address"],
+  phone: ["phone_number", "phone_number_verified"],
+};
+
+// Scopes the user cannot opt out of on the consent screen
+export const REQUIRED_SCOPES = ["openid"];
+
+export function describeScope(scope: string): string {
+  return SCOPE_DESCRIPTIONS[scope] ?? `Access "${scope}"`;
+}
+
+export function describeClaim(claim: string): string {
+  return CLAIM_DESCRIPTIONS[claim] ?? claim;
+}
+
+// Claims every ID token must carry (OIDC Core 2)
+export const REQUIRED_ID_TOKEN_CLAIMS = ["iss", "sub", "aud", "exp", "iat"];
+
+// Compares a token's claims with what the granted scopes should release.
+// "missing" lists the primary claim (first entry in SCOPE_CLAIMS) of each
+// granted scope that is absent; it may legitimately be served from UserInfo
+// instead. "unexpected" claims belong to a standard scope that was not
+// granted.
+export function checkClaimsAgainstScopes(
+  claims: Record<string, unknown>,
+  scopes: string[]
+) {
+  const expected = new Set(
+    scopes.flatMap((scope) => SCOPE_CLAIMS[scope] ?? [])
+  );
+  const scopedClaims = new Set(Object.values(SCOPE_CLAIMS).flat());
+
+  return {
+    missing: scopes
+      .map((scope) => SCOPE_CLAIMS[scope]?.[0])
+      .filter(
+        (claim): claim is string =>
+          typeof claim === "string" && !(claim in claims)
+      ),
+    unexpected: Object.keys(claims).filter(
+      (claim) => scopedClaims.has(claim) && !expected.has(claim)
+    ),
+  };
+}
@@ -0,0 +1,80 @@
+// Maps provider sessions (sub / sid from the ID token) to this app's sessions,
+// so a back-channel logout can find what to end. Server-held sessions (BFF)
+// are indexed by id and deleted; stateless ones (NextAuth JWTs) check
+// isLoggedOut() on their next request.
+
+export interface SessionRef {
+  providerId: string;
+  sub: string;
+  sid?: string;
+}
+
+export interface LogoutEvent {
+  providerId: string;
+  sub?: string;
+  sid?: string;
+  // Epoch milliseconds
+  at: number;
+}
+
+// NextAuth JWT sessions expire this long after their last request (NextAuth's
+// default, set explicitly in authOptions.session). A session a logout event
+// has not caught yet was not used since the event, so it expires within this
+// long and the event can go.
+export const SESSION_MAX_AGE_S = 30 * 24 * 60 * 60;
+const LOGOUT_RETENTION_MS = SESSION_MAX_AGE_S * 1000;
+
+// Keep the index on globalThis so it survives hot reloads in development
+const globalForIndex = globalThis as unknown as {
+  oidcSessionIndex?: Map<string, SessionRef>;
+  oidcLogoutEvents?: LogoutEvent[];
+};
+
+const index = (globalForIndex.oidcSessionIndex ??= new Map());
+const logoutEvents = (globalForIndex.oidcLogoutEvents ??= []);
+
+// A sid logout ends that one session; a sub-only logout ends all of the
+// user's sessions at the provider
+function matches(ref: SessionRef, event: Omit<LogoutEvent, "at">) {
+  if (ref.providerId !== event.providerId) return false;
+  if (event.sub && ref.sub !== event.sub) return false;
+  if (event.sid && ref.sid !== event.sid) return false;
+  return true;
+}
+
+export function indexSession(sessionId: string, ref: SessionRef) {
+  index.set(sessionId, ref);
+}
+
+export function unindexSession(sessionId: string) {
+  index.delete(sessionId);
+}
+
+// Records a logout from the provider and returns the ids of the indexed
+// sessions it ends, removing them from the index
+export function recordLogout(event: Omit<LogoutEvent, "at">): string[] {
+  const now = Date.now();
+  while (
+    logoutEvents.length &&
+    now - logoutEvents[0].at > LOGOUT_RETENTION_MS
+  ) {
+    logoutEvents.shift();
+  }
+  logoutEvents.push({ ...event, at: now });
+
+  const ended: string[] = [];
+  for (const [sessionId, ref] of index) {
+    if (matches(ref, event)) {
+      ended.push(sessionId);
+      index.delete(sessionId);
+    }
+  }
+  return ended;
+}
+
+// Whether the provider logged out a session that started at signedInAt
+export function isLoggedOut(ref: SessionRef, signedInAt: number) {
+  return logoutEvents.some(
+    (event) => event.at >= signedInAt && matches(ref, event)
+  );
+}
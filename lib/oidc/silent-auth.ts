@@ -0,0 +1,138 @@
+import {
+  AuthRequestOptions,
+  completeAuthorization,
+  createAuthRequest,
+} from "./authorization";
+import { OAuthError } from "./errors";
+import type { PublicProviderConfig } from "./providers";
+import type { StoredTokens } from "./token-store";
+
+// Authorization without redirecting the app: /auth/callback runs in a hidden
+// iframe or a popup we opened and hands the response back with postMessage.
+// The opening window keeps the PKCE verifier, state and nonce in memory (or
+// redeems them from the server, with PAR or JAR) and does the exchange.
+
+const RESPONSE_MESSAGE = "oidc_authorization_response";
+const DEFAULT_TIMEOUT_MS = 10_000;
+// Users need time to log in and consent in a popup
+const POPUP_TIMEOUT_MS = 5 * 60 * 1000;
+const POPUP_POLL_MS = 500;
+
+// Sent by /auth/callback to the window that framed or opened it. Only a
+// same-origin target receives it.
+export function postAuthorizationResponse(target: Window, search: string) {
+  target.postMessage(
+    { type: RESPONSE_MESSAGE, search },
+    window.location.origin
+  );
+}
+
+// Resolves with the authorization response posted by source, which must be a
+// window we opened on our own origin. isClosed lets popups fail early.
+function waitForAuthorizationResponse(
+  source: () => Window | null,
+  timeoutMs: number,
+  isClosed?: () => boolean
+): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      clearInterval(closedPoll);
+      window.removeEventListener("message", onMessage);
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new OAuthError("timeout", "The provider did not respond in time"));
+    }, timeoutMs);
+
+    const closedPoll = setInterval(() => {
+      if (isClosed?.()) {
+        cleanup();
+        reject(
+          new OAuthError(
+            "popup_closed",
+            "The login window was closed before sign-in finished."
+          )
+        );
+      }
+    }, POPUP_POLL_MS);
+
+    const onMessage = (event: MessageEvent) => {
+      if (
+        event.origin !== window.location.origin ||
+        event.source !== source() ||
+        event.data?.type !== RESPONSE_MESSAGE
+      ) {
+        return;
+      }
+      cleanup();
+      resolve(new URLSearchParams(event.data.search));
+    };
+
+    window.addEventListener("message", onMessage);
+  });
+}
+
+// Re-authenticates with prompt=none in a hidden iframe. Rejects with an
+// OAuthError such as login_required when the provider session is gone.
+export async function silentAuthorize(
+  provider: PublicProviderConfig,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<StoredTokens> {
+  const { request, url } = await createAuthRequest(provider, {
+    prompt: "none",
+  });
+
+  const iframe = document.createElement("iframe");
+  iframe.style.display = "none";
+  iframe.setAttribute("aria-hidden", "true");
+
+  const response = waitForAuthorizationResponse(
+    () => iframe.contentWindow,
+    timeoutMs
+  );
+  iframe.src = url;
+  document.body.appendChild(iframe);
+
+  try {
+    return await completeAuthorization(await response, request);
+  } finally {
+    iframe.remove();
+  }
+}
+
+// Runs the interactive login in a popup. Must be called from a click handler
+// before any await, or the browser blocks the popup.
+export async function popupAuthorize(
+  provider: PublicProviderConfig,
+  options: AuthRequestOptions = {}
+): Promise<StoredTokens> {
+  const width = 500;
+  const height = 650;
+  const popup = window.open(
+    "about:blank",
+    "oidc_login",
+    `popup,width=${width},height=${height},left=${window.screenX + (window.outerWidth - width) / 2},top=${window.screenY + (window.outerHeight - height) / 2}`
+  );
+  if (!popup) {
+    throw new OAuthError(
+      "popup_blocked",
+      "The login popup was blocked by the browser. Allow popups for this site or use redirect mode."
+    );
+  }
+
+  try {
+    const { request, url } = await createAuthRequest(provider, {}, options);
+    const response = waitForAuthorizationResponse(
+      () => popup,
+      POPUP_TIMEOUT_MS,
+      () => popup.closed
+    );
+    popup.location.href = url;
+
+    return await completeAuthorization(await response, request);
+  } finally {
+    popup.close();
+  }
+}
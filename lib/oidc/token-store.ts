@@ -0,0 +1,114 @@
+// Browser token storage for the manual (non-BFF) client. Every artifact the
+// app reads (`tokens`, `access_token`, `refresh_token`, `id_token`) is written
+// here so they can't drift apart.
+
+// Access token for another API (RFC 8707), obtained with the refresh token
+export interface StoredResourceToken {
+  access_token: string;
+  token_type: string;
+  scope?: string;
+  expires_at?: number;
+}
+
+export interface StoredTokens {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+  // Absolute expiry in ms, derived from expires_in when the tokens were saved
+  expires_at?: number;
+  // From the authorization response, for session management
+  session_state?: string;
+  // Access tokens for other APIs, keyed by resource
+  resource_tokens?: Record<string, StoredResourceToken>;
+  [key: string]: unknown;
+}
+
+const TOKEN_KEYS = ["tokens", "access_token", "refresh_token", "id_token"];
+
+export function loadTokens(): StoredTokens | null {
+  const stored = sessionStorage.getItem("tokens");
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch (err) {
+    console.error("Failed to parse stored tokens:", err);
+    return null;
+  }
+}
+
+// Saves a token response. Providers may omit refresh_token / id_token on
+// refresh, so those carry over from the previous set.
+export function saveTokens(
+  tokenData: StoredTokens,
+  previous?: StoredTokens | null
+): StoredTokens {
+  const tokens: StoredTokens = {
+    ...tokenData,
+    refresh_token: tokenData.refresh_token ?? previous?.refresh_token,
+    id_token: tokenData.id_token ?? previous?.id_token,
+    scope: tokenData.scope ?? previous?.scope,
+    session_state: tokenData.session_state ?? previous?.session_state,
+    resource_tokens: tokenData.resource_tokens ?? previous?.resource_tokens,
+    expires_at: tokenData.expires_in
+      ? Date.now() + tokenData.expires_in * 1000
+      : tokenData.expires_at,
+  };
+
+  sessionStorage.setItem("tokens", JSON.stringify(tokens));
+  sessionStorage.setItem("access_token", tokens.access_token);
+  for (const key of ["refresh_token", "id_token"] as const) {
+    const value = tokens[key];
+    if (value) {
+      sessionStorage.setItem(key, value);
+    } else {
+      sessionStorage.removeItem(key);
+    }
+  }
+
+  return tokens;
+}
+
+// Stores a token response for resource next to the main tokens, which keep
+// their access token. A rotated refresh token replaces the stored one.
+export function saveResourceToken(
+  current: StoredTokens,
+  resource: string,
+  tokenData: StoredTokens
+): StoredTokens {
+  const now = Date.now();
+  // Expired tokens for other resources are dropped on the way
+  const resourceTokens = Object.fromEntries(
+    Object.entries(current.resource_tokens ?? {}).filter(
+      ([, token]) => !token.expires_at || token.expires_at > now
+    )
+  );
+  resourceTokens[resource] = {
+    access_token: tokenData.access_token,
+    token_type: tokenData.token_type,
+    scope: tokenData.scope,
+    expires_at: tokenData.expires_in
+      ? now + tokenData.expires_in * 1000
+      : undefined,
+  };
+
+  return saveTokens(
+    {
+      ...current,
+      // Keeps the main access token's expires_at
+      expires_in: undefined,
+      refresh_token: tokenData.refresh_token ?? current.refresh_token,
+      resource_tokens: resourceTokens,
+    },
+    current
+  );
+}
+
+export function clearTokens() {
+  for (const key of TOKEN_KEYS) {
+    sessionStorage.removeItem(key);
+  }
+}
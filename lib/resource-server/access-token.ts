@@ -0,0 +1,203 @@
+import { introspect } from "@/lib/bff/introspection";
+import { resolveEndpoint } from "@/lib/oidc/discovery";
+import { OAuthError } from "@/lib/oidc/errors";
+import { verifyJwt } from "@/lib/oidc/jwks";
+import { decodeJwt, JwtPayload } from "@/lib/oidc/jwt";
+import {
+  getDefaultProvider,
+  getProvider,
+  listProviders,
+  ProviderConfig,
+} from "@/lib/oidc/providers";
+
+// Validation of access tokens presented to this app's own APIs: locally as a
+// JWT access token (RFC 9068) against the issuer's JWKS, or remotely through
+// the provider's introspection endpoint (RFC 7662).
+//
+// Server-only.
+
+// jwt: only JWT access tokens (typ at+jwt), verified locally
+// introspection: every token is introspected
+// auto: JWT access tokens locally, anything else (opaque tokens) introspected
+export type AccessTokenValidation = "jwt" | "introspection" | "auto";
+
+export interface ValidateAccessTokenOptions {
+  validation?: AccessTokenValidation;
+  // Registry id of the provider that must have issued the token. JWTs are
+  // otherwise matched to a provider by iss, and opaque tokens introspected at
+  // the default provider.
+  provider?: string;
+  // Allowed clock skew in seconds for exp/nbf/iat
+  clockTolerance?: number;
+}
+
+export interface ValidatedAccessToken {
+  token: string;
+  provider: ProviderConfig;
+  validatedBy: "jwt" | "introspection";
+  // JWT payload or introspection response
+  claims: JwtPayload;
+  scopes: string[];
+  audiences: string[];
+  // Thumbprint of the DPoP key a bound token requires (cnf.jkt)
+  jkt?: string;
+}
+
+const DEFAULT_CLOCK_TOLERANCE = 60;
+
+// token_type values of access tokens in introspection responses. A refresh
+// token is active too, but must not be accepted as a bearer token.
+const ACCESS_TOKEN_TYPES = ["access_token", "bearer", "dpop"];
+
+function invalidToken(description: string) {
+  return new OAuthError("invalid_token", description, 401);
+}
+
+// scope (RFC 9068 / RFC 7662) is space-separated; some providers use scp
+function readScopes(claims: JwtPayload) {
+  if (typeof claims.scope === "string") {
+    return claims.scope.split(" ").filter(Boolean);
+  }
+  return Array.isArray(claims.scp) ? claims.scp.map(String) : [];
+}
+
+function readAudiences(claims: JwtPayload) {
+  if (Array.isArray(claims.aud)) return claims.aud;
+  return claims.aud ? [claims.aud] : [];
+}
+
+function isJwtAccessToken(token: string) {
+  try {
+    const { typ } = decodeJwt(token).header;
+    return typ === "at+jwt" || typ === "application/at+jwt";
+  } catch {
+    return false;
+  }
+}
+
+function validateTimes(claims: JwtPayload, tolerance: number) {
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === "number" && now - tolerance >= claims.exp) {
+    throw invalidToken("Access token has expired");
+  }
+  if (typeof claims.nbf === "number" && claims.nbf > now + tolerance) {
+    throw invalidToken("Access token is not valid yet (nbf)");
+  }
+  if (typeof claims.iat === "number" && claims.iat > now + tolerance) {
+    throw invalidToken("Access token was issued in the future");
+  }
+}
+
+function findIssuer(issuer: unknown, providerId?: string) {
+  if (providerId) return getProvider(providerId);
+  const provider = listProviders().find((p) => p.issuer === issuer);
+  if (!provider) {
+    throw invalidToken(`Access token issuer "${issuer}" is not trusted`);
+  }
+  return provider;
+}
+
+async function validateJwt(
+  token: string,
+  options: ValidateAccessTokenOptions
+): Promise<ValidatedAccessToken> {
+  if (!isJwtAccessToken(token)) {
+    throw invalidToken('Access token is not a JWT access token (typ "at+jwt")');
+  }
+
+  const provider = findIssuer(decodeJwt(token).payload.iss, options.provider);
+  let claims;
+  try {
+    ({ payload: claims } = await verifyJwt(
+      token,
+      await resolveEndpoint(provider.issuer, "jwks_uri")
+    ));
+  } catch (err) {
+    throw invalidToken(err instanceof Error ? err.message : String(err));
+  }
+
+  if (claims.iss !== provider.issuer) {
+    throw invalidToken(`Access token was not issued by ${provider.issuer}`);
+  }
+  if (typeof claims.exp !== "number") {
+    throw invalidToken("Access token is missing the exp claim");
+  }
+  validateTimes(claims, options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE);
+
+  return toValidated(token, provider, "jwt", claims);
+}
+
+async function validateByIntrospection(
+  token: string,
+  options: ValidateAccessTokenOptions
+): Promise<ValidatedAccessToken> {
+  const provider = options.provider
+    ? getProvider(options.provider)
+    : getDefaultProvider();
+  let result;
+  try {
+    result = await introspect(provider, token, {
+      tokenTypeHint: "access_token",
+    });
+  } catch (err) {
+    throw new OAuthError(
+      "temporarily_unavailable",
+      `Token introspection failed: ${err instanceof Error ? err.message : String(err)}`,
+      503
+    );
+  }
+  if (!result.active) {
+    throw invalidToken(`Access token is not active: ${result.reason}`);
+  }
+  const { token_type: tokenType, iss } = result.claims;
+  if (
+    tokenType !== undefined &&
+    !ACCESS_TOKEN_TYPES.includes(String(tokenType).toLowerCase())
+  ) {
+    throw invalidToken(`Token of type ${tokenType} is not an access token`);
+  }
+  if (iss !== undefined && iss !== provider.issuer) {
+    throw invalidToken(`Access token was not issued by ${provider.issuer}`);
+  }
+
+  validateTimes(
+    result.claims,
+    options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE
+  );
+  return toValidated(token, provider, "introspection", result.claims);
+}
+
+function toValidated(
+  token: string,
+  provider: ProviderConfig,
+  validatedBy: ValidatedAccessToken["validatedBy"],
+  claims: JwtPayload
+): ValidatedAccessToken {
+  const cnf = claims.cnf as { jkt?: unknown } | undefined;
+  return {
+    token,
+    provider,
+    validatedBy,
+    claims,
+    scopes: readScopes(claims),
+    audiences: readAudiences(claims),
+    jkt: typeof cnf?.jkt === "string" ? cnf.jkt : undefined,
+  };
+}
+
+// Validates an access token and returns what it grants. Throws an OAuthError
+// with invalid_token if it is not acceptable. Scopes and audience are checked
+// by the caller (see with-access-token.ts).
+export async function validateAccessToken(
+  token: string,
+  options: ValidateAccessTokenOptions = {}
+): Promise<ValidatedAccessToken> {
+  const validation = options.validation ?? "auto";
+  if (
+    validation === "jwt" ||
+    (validation === "auto" && isJwtAccessToken(token))
+  ) {
+    return validateJwt(token, options);
+  }
+  return validateByIntrospection(token, options);
+}
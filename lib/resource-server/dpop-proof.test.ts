@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { createDpopProof, DpopKey, generateDpopKey } from "@/lib/oidc/dpop";
+import { base64UrlEncode, JwtPayload } from "@/lib/oidc/jwt";
+import { verifyDpopProof } from "./dpop-proof";
+
+const TARGET_URL = "https://api.example.com/reports?page=2";
+const ACCESS_TOKEN = "access-token";
+
+let key: DpopKey;
+
+beforeAll(async () => {
+  key = await generateDpopKey();
+});
+
+function verify(proof: string, request: { method?: string } = {}) {
+  return verifyDpopProof(proof, {
+    method: "GET",
+    url: TARGET_URL,
+    accessToken: ACCESS_TOKEN,
+    ...request,
+  });
+}
+
+// Proof signed with key, with extra header and payload members
+async function signProof(
+  header: Record<string, unknown>,
+  payload: JwtPayload = {}
+) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(ACCESS_TOKEN)
+  );
+  const signingInput = [
+    base64UrlEncode(
+      JSON.stringify({
+        typ: "dpop+jwt",
+        alg: "ES256",
+        jwk: key.publicJwk,
+        ...header,
+      })
+    ),
+    base64UrlEncode(
+      JSON.stringify({
+        jti: crypto.randomUUID(),
+        htm: "GET",
+        htu: "https://api.example.com/reports",
+        iat: Math.floor(Date.now() / 1000),
+        ath: base64UrlEncode(new Uint8Array(digest)),
+        ...payload,
+      })
+    ),
+  ].join(".");
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    key.privateKey,
+    new TextEncoder().encode(signingInput)
+  );
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+describe("verifyDpopProof", () => {
+  it("returns the thumbprint of the proof's key", async () => {
+    const proof = await createDpopProof(key, {
+      method: "GET",
+      url: TARGET_URL,
+      accessToken: ACCESS_TOKEN,
+    });
+    await expect(verify(proof)).resolves.toBe(key.jkt);
+  });
+
+  it("accepts a proof whose header or jwk carries a kid", async () => {
+    await expect(verify(await signProof({ kid: "key-1" }))).resolves.toBe(
+      key.jkt
+    );
+    await expect(
+      verify(await signProof({ jwk: { ...key.publicJwk, kid: "key-1" } }))
+    ).resolves.toBe(key.jkt);
+  });
+
+  it("rejects a proof signed with another key", async () => {
+    const other = await generateDpopKey();
+    await expect(
+      verify(await signProof({ jwk: other.publicJwk }))
+    ).rejects.toThrow("signature verification failed");
+  });
+
+  it("checks htm and ath", async () => {
+    await expect(
+      verify(await signProof({}), { method: "POST" })
+    ).rejects.toThrow("htm does not match");
+    await expect(verify(await signProof({}, { ath: "other" }))).rejects.toThrow(
+      "ath does not match"
+    );
+  });
+
+  it("rejects a replayed proof", async () => {
+    const proof = await signProof({});
+    await verify(proof);
+    await expect(verify(proof)).rejects.toThrow("already used");
+  });
+});
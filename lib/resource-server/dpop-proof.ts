@@ -0,0 +1,123 @@
+import { OAuthError } from "@/lib/oidc/errors";
+import {
+  isSupportedAlgorithm,
+  jwkThumbprint,
+  toPublicJwk,
+  verifyJwtWithKey,
+} from "@/lib/oidc/jwks";
+import { base64UrlEncode, decodeJwt } from "@/lib/oidc/jwt";
+
+// Resource-server side of DPoP (RFC 9449 section 4.3): checks the proof a
+// client sends along with a DPoP-bound access token. The client side lives in
+// lib/oidc/dpop.ts.
+
+// How old (or, with clock skew, how far in the future) a proof may be
+const PROOF_MAX_AGE_S = 300;
+const CLOCK_TOLERANCE_S = 60;
+
+// jti of recently accepted proofs, until they would be too old anyway
+const seenProofs = new Map<string, number>();
+
+function rememberProof(id: string, expiresAt: number) {
+  const now = Date.now();
+  for (const [seenId, seenUntil] of seenProofs) {
+    if (seenUntil <= now) seenProofs.delete(seenId);
+  }
+  if (seenProofs.has(id)) return false;
+  seenProofs.set(id, expiresAt);
+  return true;
+}
+
+function invalidProof(description: string) {
+  return new OAuthError("invalid_dpop_proof", description, 401);
+}
+
+// Target URI as htu compares it: without query and fragment
+function normalizeHtu(url: string) {
+  const normalized = new URL(url);
+  normalized.search = "";
+  normalized.hash = "";
+  return normalized.toString();
+}
+
+export interface DpopProofRequest {
+  method: string;
+  url: string;
+  // The access token the proof must be bound to (ath)
+  accessToken: string;
+}
+
+// Verifies a DPoP proof for the request and returns the thumbprint of its
+// key, to compare with the access token's cnf.jkt
+export async function verifyDpopProof(
+  proof: string,
+  { method, url, accessToken }: DpopProofRequest
+): Promise<string> {
+  let decoded;
+  try {
+    decoded = decodeJwt(proof);
+  } catch {
+    throw invalidProof("DPoP proof is not a JWT");
+  }
+
+  const { header, payload } = decoded;
+  if (header.typ !== "dpop+jwt") {
+    throw invalidProof('DPoP proof must have typ "dpop+jwt"');
+  }
+  if (!isSupportedAlgorithm(header.alg)) {
+    throw invalidProof(`Unsupported DPoP proof algorithm ${header.alg}`);
+  }
+
+  const jwk = header.jwk as JsonWebKey | undefined;
+  if (!jwk || typeof jwk !== "object" || "d" in jwk) {
+    throw invalidProof("DPoP proof must carry a public jwk in its header");
+  }
+
+  let publicJwk;
+  try {
+    publicJwk = toPublicJwk(jwk);
+    await verifyJwtWithKey(proof, publicJwk);
+  } catch (err) {
+    throw invalidProof(err instanceof Error ? err.message : String(err));
+  }
+
+  if (payload.htm !== method.toUpperCase()) {
+    throw invalidProof(`DPoP proof htm does not match ${method}`);
+  }
+  if (
+    typeof payload.htu !== "string" ||
+    normalizeHtu(payload.htu) !== normalizeHtu(url)
+  ) {
+    throw invalidProof(`DPoP proof htu does not match ${normalizeHtu(url)}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    typeof payload.iat !== "number" ||
+    payload.iat > now + CLOCK_TOLERANCE_S ||
+    payload.iat < now - PROOF_MAX_AGE_S
+  ) {
+    throw invalidProof("DPoP proof iat is missing or out of range");
+  }
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(accessToken)
+  );
+  if (payload.ath !== base64UrlEncode(new Uint8Array(digest))) {
+    throw invalidProof("DPoP proof ath does not match the access token");
+  }
+
+  const jkt = await jwkThumbprint(publicJwk);
+  if (
+    typeof payload.jti !== "string" ||
+    !rememberProof(
+      `${jkt}:${payload.jti}`,
+      (payload.iat + PROOF_MAX_AGE_S + CLOCK_TOLERANCE_S) * 1000
+    )
+  ) {
+    throw invalidProof("DPoP proof jti is missing or was already used");
+  }
+
+  return jkt;
+}
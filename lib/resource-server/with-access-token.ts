@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OAuthError } from "@/lib/oidc/errors";
+import { SUPPORTED_ALGORITHM_NAMES } from "@/lib/oidc/jwks";
+import {
+  validateAccessToken,
+  ValidateAccessTokenOptions,
+  ValidatedAccessToken,
+} from "./access-token";
+import { verifyDpopProof } from "./dpop-proof";
+
+// Route handler wrapper for this app's own APIs: accepts "Bearer" and "DPoP"
+// access tokens (RFC 6750, RFC 9449), validates them and checks the route's
+// scope and audience requirements. Failures are answered with the matching
+// WWW-Authenticate challenge.
+//
+//   export const GET = withAccessToken(
+//     async (request, auth) => NextResponse.json({ sub: auth.claims.sub }),
+//     { scopes: ["profile"] }
+//   );
+
+export interface AccessTokenRequirements extends ValidateAccessTokenOptions {
+  // All of these must be granted
+  scopes?: string[];
+  // The token's aud must include one of these
+  audience?: string | string[];
+}
+
+export interface AuthenticatedRequest extends ValidatedAccessToken {
+  // Scheme the token was presented with
+  scheme: "Bearer" | "DPoP";
+}
+
+type AuthScheme = AuthenticatedRequest["scheme"];
+
+// Algorithms accepted for DPoP proofs, advertised in the DPoP challenge
+const DPOP_ALGS = SUPPORTED_ALGORITHM_NAMES.join(" ");
+
+function quote(value: string) {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// WWW-Authenticate value. Without a scheme (no token was sent) both schemes
+// are offered, without error details (RFC 6750 section 3.1).
+function challenge(
+  scheme: AuthScheme | null,
+  err?: OAuthError,
+  scope?: string
+) {
+  const schemes: AuthScheme[] = scheme ? [scheme] : ["Bearer", "DPoP"];
+  return schemes
+    .map((name) => {
+      const params = [];
+      if (err) {
+        params.push(`error=${quote(err.error)}`);
+        params.push(`error_description=${quote(err.message)}`);
+      }
+      if (scope) params.push(`scope=${quote(scope)}`);
+      if (name === "DPoP") params.push(`algs=${quote(DPOP_ALGS)}`);
+      return params.length ? `${name} ${params.join(", ")}` : name;
+    })
+    .join(", ");
+}
+
+function errorResponse(
+  scheme: AuthScheme | null,
+  err: OAuthError,
+  scope?: string
+) {
+  // Only token problems are challenges; a failing introspection endpoint is
+  // not the client's fault
+  const headers: Record<string, string> =
+    err.status === 401 || err.status === 403 || err.status === 400
+      ? { "WWW-Authenticate": challenge(scheme, err, scope) }
+      : {};
+  return NextResponse.json(
+    { error: err.error, error_description: err.message },
+    { status: err.status, headers }
+  );
+}
+
+function parseAuthorization(header: string | null) {
+  if (!header) return null;
+  const match = /^(Bearer|DPoP) +([A-Za-z0-9\-._~+/]+=*)$/i.exec(header.trim());
+  if (!match) {
+    throw new OAuthError(
+      "invalid_request",
+      "Authorization header must be Bearer or DPoP with a single token",
+      400
+    );
+  }
+  const scheme: AuthScheme =
+    match[1].toLowerCase() === "dpop" ? "DPoP" : "Bearer";
+  return { scheme, token: match[2] };
+}
+
+function checkAudience(
+  auth: ValidatedAccessToken,
+  audience: string | string[] | undefined
+) {
+  if (!audience) return;
+  const accepted = Array.isArray(audience) ? audience : [audience];
+  if (!auth.audiences.some((aud) => accepted.includes(aud))) {
+    throw new OAuthError(
+      "invalid_token",
+      `Access token audience does not include ${accepted.join(" or ")}`,
+      401
+    );
+  }
+}
+
+async function authenticate(
+  request: NextRequest,
+  scheme: AuthScheme,
+  token: string,
+  requirements: AccessTokenRequirements
+): Promise<AuthenticatedRequest> {
+  const auth = await validateAccessToken(token, requirements);
+
+  if (scheme === "DPoP") {
+    const proof = request.headers.get("DPoP");
+    // Repeated headers arrive comma-joined; a JWT never contains a comma
+    if (!proof || proof.includes(",")) {
+      throw new OAuthError(
+        "invalid_dpop_proof",
+        "Exactly one DPoP proof header is required",
+        401
+      );
+    }
+    const jkt = await verifyDpopProof(proof, {
+      method: request.method,
+      url: request.url,
+      accessToken: token,
+    });
+    if (jkt !== auth.jkt) {
+      throw new OAuthError(
+        "invalid_token",
+        auth.jkt
+          ? "Access token is bound to a different DPoP key"
+          : "Access token is not DPoP-bound",
+        401
+      );
+    }
+  } else if (auth.jkt) {
+    // A bound token must not be downgraded to a bearer token
+    throw new OAuthError(
+      "invalid_token",
+      "DPoP-bound access token must be sent with the DPoP scheme",
+      401
+    );
+  }
+
+  checkAudience(auth, requirements.audience);
+  return { ...auth, scheme };
+}
+
+export function withAccessToken<Context>(
+  handler: (
+    request: NextRequest,
+    auth: AuthenticatedRequest,
+    context: Context
+  ) => Response | Promise<Response>,
+  requirements: AccessTokenRequirements = {}
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    let scheme: AuthScheme | null = null;
+    let auth: AuthenticatedRequest;
+    try {
+      const credentials = parseAuthorization(
+        request.headers.get("Authorization")
+      );
+      if (!credentials) {
+        return new NextResponse(null, {
+          status: 401,
+          headers: { "WWW-Authenticate": challenge(null) },
+        });
+      }
+      scheme = credentials.scheme;
+      auth = await authenticate(
+        request,
+        scheme,
+        credentials.token,
+        requirements
+      );
+    } catch (err) {
+      if (err instanceof OAuthError) return errorResponse(scheme, err);
+      throw err;
+    }
+
+    const missing = (requirements.scopes ?? []).filter(
+      (scope) => !auth.scopes.includes(scope)
+    );
+    if (missing.length > 0) {
+      return errorResponse(
+        scheme,
+        new OAuthError(
+          "insufficient_scope",
+          `Missing required scope: ${missing.join(" ")}`,
+          403
+        ),
+        requirements.scopes!.join(" ")
+      );
+    }
+
+    return handler(request, auth, context);
+  };
+}
@@ -1,13 +1,22 @@
 import type { NextConfig } from "next";
+import { listProviders } from "./lib/oidc/providers";
 
 const nextConfig: NextConfig = {
   async rewrites() {
-    return [
-      {
-        source: "/oidc/:path*",
-        destination: "http://localhost:4001/oidc/:path*",
-      },
-    ];
+    // Proxy each provider's proxyPath (e.g. /oidc) to its issuer so the
+    // browser flow and the login/consent pages stay same-origin. These are
+    // fallback rewrites so app routes under the proxy path (such as
+    // <proxyPath>/interaction/[uid]/details) take precedence.
+    return {
+      beforeFiles: [],
+      afterFiles: [],
+      fallback: listProviders()
+        .filter((provider) => provider.proxyPath)
+        .map((provider) => ({
+          source: `${provider.proxyPath}/:path*`,
+          destination: `${provider.issuer}/:path*`,
+        })),
+    };
   },
 };
 
@@ -1,9 +1,28 @@
 import "next-auth";
 import "next-auth/jwt";
+import type { ResourceToken } from "@/lib/nextauth/refresh";
 
 declare module "next-auth" {
   interface Session {
+    // Left out when DPoP-bound (tokenType "DPoP"): only the server's key can
+    // use it
     accessToken?: string;
+    // cnf.jkt of a DPoP-bound access token, and the thumbprint of the
+    // server's current DPoP key. They differ after a server restart until
+    // the next refresh.
+    dpopJkt?: string;
+    serverDpopJkt?: string;
+    // Registry id of the provider the user signed in with
+    provider?: string;
+    // "DPoP" for DPoP-bound access tokens
+    tokenType?: string;
+    // Access tokens for other APIs, keyed by resource. Requested with
+    // update({ resource, scope }). DPoP-bound ones come without accessToken.
+    resourceTokens?: Record<
+      string,
+      Omit<ResourceToken, "accessToken"> & { accessToken?: string }
+    >;
+    resourceTokenError?: string;
     error?: string;
     user: {
       id: string;
@@ -26,9 +45,19 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
   interface JWT {
     accessToken?: string;
+    tokenType?: string;
     refreshToken?: string;
     accessTokenExpires?: number;
+    resourceTokens?: Record<string, ResourceToken>;
+    // Why the last resource token request failed
+    resourceTokenError?: string;
     idToken?: string;
+    // Registry id of the provider that issued the tokens
+    provider?: string;
+    // Provider session id from the ID token, matched by back-channel logout
+    sid?: string;
+    // Epoch milliseconds of the sign-in
+    signedInAt?: number;
     error?: string;
     user?: {
       id: string;